@@ -1,7 +1,15 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAudioEngine } from './hooks/useAudioEngine';
-import { Theme, SoundLayer } from './types';
-import { THEMES, ALL_SOUND_LAYERS, FADE_TIME } from './constants';
+import { useSleepTimer } from './hooks/useSleepTimer';
+import { usePresets, PresetConflictPolicy } from './hooks/usePresets';
+import { usePomodoro } from './hooks/usePomodoro';
+import { useWakeAlarm } from './hooks/useWakeAlarm';
+import { useKeyboardShortcuts, Shortcut } from './hooks/useKeyboardShortcuts';
+import { useOfflineCache, OfflineItem } from './hooks/useOfflineCache';
+import { useUploads, UploadDetails } from './hooks/useUploads';
+import { useThemeRegistry } from './hooks/useThemeRegistry';
+import { Theme, SoundLayer, MixSnapshot, MixPreset, Automation, ToneSettings, EnvironmentSetting, Vector3, BinauralSettings, PomodoroConfig, PomodoroSession, MixTarget, WakeAlarm } from './types';
+import { ALL_SOUND_LAYERS, FADE_TIME, CUSTOM_THEME_ID, DEFAULT_DRIFT_SETTINGS, DEFAULT_TONE, DEFAULT_BINAURAL_SETTINGS, DEFAULT_POMODORO_CONFIG } from './constants';
 import ThemeSelector from './components/ThemeSelector';
 import VolumeSlider from './components/VolumeSlider';
 import MasterControls from './components/MasterControls';
@@ -9,17 +17,36 @@ import VantaBackground from './components/VantaBackground';
 import LayerEditor from './components/LayerEditor';
 import InfoModal from './components/InfoModal';
 import CustomThemeEditor from './components/CustomThemeEditor';
-import { SparklesIcon, EditIcon, EyeIcon, EyeSlashIcon, InfoIcon, PlusIcon } from './components/Icons';
+import Visualizer, { LevelMeterStrip } from './components/Visualizer';
+import LoadingScreen from './components/LoadingScreen';
+import SleepTimer from './components/SleepTimer';
+import PomodoroControls, { PomodoroCountdown } from './components/PomodoroControls';
+import WakeAlarmControls from './components/WakeAlarmControls';
+import CommandPalette, { Command } from './components/CommandPalette';
+import ShortcutHelp from './components/ShortcutHelp';
+import OfflineControls, { AppUpdateBanner } from './components/OfflineControls';
+import ExportDialog from './components/ExportDialog';
+import PresetLibrary, { PresetQuickSwitch } from './components/PresetLibrary';
+import AutomationEditor, { AutomationLane } from './components/AutomationEditor';
+import DriftControls, { DriftState } from './components/DriftControls';
+import ToneEditor, { isToneShaped } from './components/ToneEditor';
+import BinauralEditor from './components/BinauralEditor';
+import EnvironmentControls from './components/EnvironmentControls';
+import SoundStage from './components/SoundStage';
+import { encodeMixLink, parseMixLink, MixLinkResult } from './utils/mixLink';
+import { ImportedPreset } from './utils/presetFile';
+import { fuzzyScore } from './utils/fuzzy';
+import { createArtwork } from './utils/mediaArtwork';
+import { loadConfiguredThemeFiles, findBackdrop, DEFAULT_THEME_FONT } from './utils/themeRegistry';
+import { layerFiles, themeFiles } from './utils/offlineCache';
+import { StoredUpload } from './utils/uploadStore';
+import { THEME_LANE_ID } from './audio/automation';
+import { DRY_ENVIRONMENT } from './audio/reverb';
+import { SparklesIcon, EditIcon, EyeIcon, EyeSlashIcon, InfoIcon, PlusIcon, DownloadIcon, ShareIcon, BookmarkIcon, TimelineIcon, StageIcon } from './components/Icons';
 
-// ---- Subtitles here (edit freely) ----
-const THEME_SUBTITLES: Record<string, string> = {
-	'dark-drone': 'Immersive dark ambience: resonant engines, cosmic hums, and drifting worlds',
-	'floating-dreaming': 'Ethereal soundscape: gentle waves of air and light to drift, dream, and unwind',
-	'focus-meditation': 'Calm tonal flow: minimal textures and slow pulses to deepen focus and stillness'
-};
-// --------------------------------------
-
-const CUSTOM_THEME_ID = 'custom';
+// Themes bring their own subtitle and title font (see constants.ts); these are the custom mix's
+const CUSTOM_THEME_SUBTITLE = 'Shape your own ambient world: blend tones, textures, and nature into a realm uniquely yours';
+const CUSTOM_THEME_FONT = 'font-poppins';
 
 // Define a special theme for the pre-initialized welcome screen
 const preInitTheme: Theme = {
@@ -32,6 +59,8 @@ const preInitTheme: Theme = {
 	defaultVolumes: {}
 };
 
+const EMPTY_AUTOMATION: Automation = { length: 60 * 60, loop: false, lanes: {} };
+
 const getInitialState = <T,>(key: string, defaultValue: T): T => {
 	try {
 		const storedValue = localStorage.getItem(key);
@@ -44,13 +73,31 @@ const getInitialState = <T,>(key: string, defaultValue: T): T => {
 
 const App: React.FC = () => {
 	const [isEditing, setIsEditing] = useState(false);
+	const [isStageOpen, setIsStageOpen] = useState(false);
 	const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
 	const [isCustomEditorOpen, setIsCustomEditorOpen] = useState(false);
+	const [isExportOpen, setIsExportOpen] = useState(false);
+	const [isPresetLibraryOpen, setIsPresetLibraryOpen] = useState(false);
+	const [isAutomationEditorOpen, setIsAutomationEditorOpen] = useState(false);
+	// Read once the theme files are in, so links to their themes check out
+	const [sharedMixLink, setSharedMixLink] = useState<MixLinkResult | null>(null);
+	const [areThemeFilesLoaded, setAreThemeFilesLoaded] = useState(false);
+	const [isLinkCopied, setIsLinkCopied] = useState(false);
+	const [toneLayerId, setToneLayerId] = useState<string | null>(null);
 	const [isUIVisible, setIsUIVisible] = useState(true);
+	const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+	const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+	const [selectedSliderId, setSelectedSliderId] = useState<string | null>(null); // 'theme' or a layer id; the arrow keys' target
 	const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+	const [showMeters, setShowMeters] = useState<boolean>(() => getInitialState('etherfields_show_meters', false));
+	const [drift, setDrift] = useState<DriftState>(() => getInitialState('etherfields_drift', { enabled: false, layers: {} }));
+	const [binaural, setBinauralSettings] = useState<BinauralSettings>(() => getInitialState('etherfields_binaural', DEFAULT_BINAURAL_SETTINGS));
+	const [pomodoroConfig, setPomodoroConfig] = useState<PomodoroConfig>(() => getInitialState('etherfields_pomodoro_config', DEFAULT_POMODORO_CONFIG));
+
+	const { themes, definitions, backdrops } = useThemeRegistry();
 
 	const [customThemes, setCustomThemes] = useState<Record<string, Theme>>(() => {
-		const defaultThemes = THEMES.reduce((acc, theme) => ({ ...acc, [theme.id]: theme }), {});
+		const defaultThemes = themes.reduce((acc, theme) => ({ ...acc, [theme.id]: theme }), {});
 		return getInitialState('etherfields_custom_themes', defaultThemes);
 	});
 
@@ -63,7 +110,7 @@ const App: React.FC = () => {
 	);
 
 	const [mainThemeVolumes, setMainThemeVolumes] = useState<Record<string, number>>(() => {
-		const defaultVolumes = THEMES.reduce(
+		const defaultVolumes = themes.reduce(
 			(acc, theme) => ({ ...acc, [theme.id]: theme.defaultThemeVolume }),
 			{}
 		);
@@ -72,18 +119,35 @@ const App: React.FC = () => {
 	});
 
 	const [themeVolumes, setThemeVolumes] = useState<Record<string, Record<string, number>>>(() => {
-		const defaultVolumes = THEMES.reduce(
+		const defaultVolumes = themes.reduce(
 			(acc, theme) => ({ ...acc, [theme.id]: theme.defaultVolumes }),
 			{}
 		);
 		return getInitialState('etherfields_theme_volumes', defaultVolumes);
 	});
 
+	const [themeTones, setThemeTones] = useState<Record<string, Record<string, ToneSettings>>>(() =>
+		getInitialState('etherfields_theme_tones', {})
+	);
+
+	const [themePositions, setThemePositions] = useState<Record<string, Record<string, Vector3>>>(() =>
+		getInitialState('etherfields_theme_positions', {})
+	);
+
+	// Only rooms the user picked; built-in themes otherwise use their own default
+	const [themeEnvironments, setThemeEnvironments] = useState<Record<string, EnvironmentSetting>>(() =>
+		getInitialState('etherfields_theme_environments', {})
+	);
+
+	const [themeAutomations, setThemeAutomations] = useState<Record<string, Automation>>(() =>
+		getInitialState('etherfields_theme_automations', {})
+	);
+
 	// FIX: Explicitly set the return type of useMemo to `Theme` to fix type inference issues.
 	// This ensures `activeTheme` has a consistent and correct type, resolving downstream errors.
 	const activeTheme = useMemo((): Theme => {
         if (activeThemeId === CUSTOM_THEME_ID) {
-            const baseTheme = THEMES.find(t => t.id === customThemeConfig.baseThemeId) || THEMES[0];
+            const baseTheme = themes.find(t => t.id === customThemeConfig.baseThemeId) || themes[0];
             return {
                 id: CUSTOM_THEME_ID,
                 name: 'Custom',
@@ -94,20 +158,60 @@ const App: React.FC = () => {
                 defaultVolumes: {},
             };
         }
-		return customThemes[activeThemeId] || THEMES[0];
-	}, [customThemes, activeThemeId, customThemeConfig]);
+		return customThemes[activeThemeId] || themes[0];
+	}, [themes, customThemes, activeThemeId, customThemeConfig]);
     
 	const activeVolumes = useMemo(() => themeVolumes[activeThemeId] || {}, [themeVolumes, activeThemeId]);
+	const activeTones = useMemo(() => themeTones[activeThemeId] || {}, [themeTones, activeThemeId]);
+	const activePositions = useMemo(() => themePositions[activeThemeId] || {}, [themePositions, activeThemeId]);
+	const activeEnvironment = useMemo(
+		() => themeEnvironments[activeThemeId] ?? themes.find((t) => t.id === activeThemeId)?.environment ?? DRY_ENVIRONMENT,
+		[themes, themeEnvironments, activeThemeId]
+	);
+
+	// The title and backdrop come from the theme's definition; the custom mix has its own
+	const activeDefinition = useMemo(() => definitions.find((definition) => definition.id === activeTheme.id), [definitions, activeTheme.id]);
+	const subtitle = activeTheme.id === CUSTOM_THEME_ID ? CUSTOM_THEME_SUBTITLE : activeDefinition?.subtitle ?? '';
+	const fontClass = activeTheme.id === CUSTOM_THEME_ID ? CUSTOM_THEME_FONT : activeDefinition?.font ?? DEFAULT_THEME_FONT;
+	const activeBackdrop = useMemo(() => findBackdrop(activeTheme.vantaEffect) ?? backdrops[0], [activeTheme.vantaEffect, backdrops]);
+
+	// Theme files named by the build join the registry once fetched. The mix can't
+	// start before then: the saved theme may be one of theirs.
+	useEffect(() => {
+		loadConfiguredThemeFiles().then(() => setAreThemeFilesLoaded(true));
+	}, []);
+
+	// A saved theme whose file is gone for good falls back to the first one
+	useEffect(() => {
+		if (areThemeFilesLoaded && activeThemeId !== CUSTOM_THEME_ID && !themes.some((t) => t.id === activeThemeId)) {
+			setActiveThemeId(themes[0].id);
+		}
+	}, [areThemeFilesLoaded]);
+
+	// Themes registered since the mix was saved (new built-ins, theme files) start from their defaults
+	useEffect(() => {
+		const withDefaults = <T,>(prev: Record<string, T>, pick: (theme: Theme) => T) => {
+			const fresh = themes.filter((theme) => !(theme.id in prev));
+			return fresh.length > 0 ? { ...prev, ...Object.fromEntries(fresh.map((theme) => [theme.id, pick(theme)])) } : prev;
+		};
+		setCustomThemes((prev) => withDefaults(prev, (theme) => theme));
+		setMainThemeVolumes((prev) => withDefaults(prev, (theme) => theme.defaultThemeVolume));
+		setThemeVolumes((prev) => withDefaults(prev, (theme) => theme.defaultVolumes));
+	}, [themes]);
+
+	// The built-in layers, then the user's own sounds
+	const uploads = useUploads();
+	const allLayers = useMemo(() => [...ALL_SOUND_LAYERS, ...uploads.uploadedLayers], [uploads.uploadedLayers]);
 
 	const allInitialVolumes = useMemo(() => {
 		const initialVols: Record<string, number> = {};
-		ALL_SOUND_LAYERS.forEach((layer) => {
+		allLayers.forEach((layer) => {
 			initialVols[layer.id] = activeTheme.layers.includes(layer.id)
 				? activeVolumes[layer.id] ?? 0
 				: 0;
 		});
 		return initialVols;
-	}, [activeTheme, activeVolumes]);
+	}, [allLayers, activeTheme, activeVolumes]);
 
 	const {
 		isInitialized,
@@ -118,15 +222,64 @@ const App: React.FC = () => {
 		setLayerVolume,
 		setMainVolume,
 		toggleMute,
-		resetAndPlayTheme
+		resetAndPlayTheme,
+		analyser,
+		getLevels,
+		assets,
+		startPlayback,
+		retryAsset,
+		fadeOutMaster,
+		restoreMaster,
+		suspendPlayback,
+		resumePlayback,
+		isPlaying,
+		togglePlayback,
+		renderExport,
+		isAutomationPlaying,
+		startAutomation,
+		stopAutomation,
+		getAutomationPosition,
+		setEnvironment,
+		setLayerPosition,
+		setLayerTone,
+		setBinaural,
+		playCue,
+		setMediaInfo,
+		setLayerDrift,
+		pauseLayerDrift,
+		resumeLayerDrift,
+		getLiveVolume
 	} = useAudioEngine({
-		themes: THEMES,
-		allLayers: ALL_SOUND_LAYERS,
-		initialThemeId: activeThemeId === CUSTOM_THEME_ID ? (customThemeConfig.baseThemeId || THEMES[0].id) : activeThemeId,
+		themes,
+		allLayers,
+		initialThemeId: activeThemeId === CUSTOM_THEME_ID ? (customThemeConfig.baseThemeId || themes[0].id) : activeThemeId,
 		initialVolumes: allInitialVolumes,
 		initialMainVolume: mainThemeVolumes[activeThemeId]
 	});
 
+	const { presets, savePreset, renamePreset, duplicatePreset, deletePreset, importPresets, forgetLayer } = usePresets();
+
+	const sleepTimer = useSleepTimer({
+		fadeOut: fadeOutMaster,
+		cancelFade: restoreMaster,
+		suspend: suspendPlayback,
+		resume: resumePlayback
+	});
+
+	// --- Offline ---
+	// Each theme's stream can be kept on its own; the layer files go together
+	const offlineItems = useMemo((): OfflineItem[] => [
+		...themes.map((theme) => ({ id: theme.id, name: theme.name, files: themeFiles(theme) })),
+		{ id: 'layers', name: 'Sound layers', files: layerFiles(ALL_SOUND_LAYERS) },
+	], [themes]);
+	const offline = useOfflineCache(offlineItems, isInitialized && !isLoading);
+
+	// Playing again after the sleep timer ran out takes over from it
+	const handleTogglePlayback = useCallback(() => {
+		if (!isPlaying && sleepTimer.phase === 'asleep') sleepTimer.reset();
+		togglePlayback();
+	}, [isPlaying, sleepTimer.phase, sleepTimer.reset, togglePlayback]);
+
 	useEffect(() => {
 		if (isInitialized) localStorage.setItem('etherfields_active_theme_id', JSON.stringify(activeThemeId));
 	}, [activeThemeId, isInitialized]);
@@ -147,6 +300,52 @@ const App: React.FC = () => {
 		if (isInitialized) localStorage.setItem('etherfields_theme_volumes', JSON.stringify(themeVolumes));
 	}, [themeVolumes, isInitialized]);
 
+	useEffect(() => {
+		if (isInitialized) localStorage.setItem('etherfields_theme_tones', JSON.stringify(themeTones));
+	}, [themeTones, isInitialized]);
+
+	// Tones are handed over before loading too, so players start with their shaping
+	useEffect(() => {
+		allLayers.forEach((layer) => setLayerTone(layer.id, activeTones[layer.id] ?? DEFAULT_TONE));
+	}, [allLayers, activeTones, setLayerTone]);
+
+	useEffect(() => {
+		if (isInitialized) localStorage.setItem('etherfields_theme_positions', JSON.stringify(themePositions));
+	}, [themePositions, isInitialized]);
+
+	useEffect(() => {
+		allLayers.forEach((layer) => setLayerPosition(layer.id, activePositions[layer.id] ?? null));
+	}, [allLayers, activePositions, setLayerPosition]);
+
+	useEffect(() => {
+		if (isInitialized) localStorage.setItem('etherfields_theme_environments', JSON.stringify(themeEnvironments));
+	}, [themeEnvironments, isInitialized]);
+
+	useEffect(() => {
+		setEnvironment(activeEnvironment);
+	}, [activeEnvironment, setEnvironment]);
+
+	useEffect(() => {
+		if (isInitialized) localStorage.setItem('etherfields_theme_automations', JSON.stringify(themeAutomations));
+	}, [themeAutomations, isInitialized]);
+
+	useEffect(() => {
+		localStorage.setItem('etherfields_drift', JSON.stringify(drift));
+	}, [drift]);
+
+	useEffect(() => {
+		localStorage.setItem('etherfields_pomodoro_config', JSON.stringify(pomodoroConfig));
+	}, [pomodoroConfig]);
+
+	useEffect(() => {
+		localStorage.setItem('etherfields_binaural', JSON.stringify(binaural));
+		setBinaural(binaural);
+	}, [binaural, setBinaural]);
+
+	useEffect(() => {
+		localStorage.setItem('etherfields_show_meters', JSON.stringify(showMeters));
+	}, [showMeters]);
+
 	useEffect(() => {
 		const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
 		document.addEventListener('fullscreenchange', handleFullscreenChange);
@@ -173,6 +372,7 @@ const App: React.FC = () => {
 				return;
 			}
 			
+			stopAutomation();
 			const oldTheme = activeTheme;
 			oldTheme.layers.forEach((layerId) => {
 				if (!theme.layers.includes(layerId)) {
@@ -193,22 +393,25 @@ const App: React.FC = () => {
 			});
 			setIsEditing(false);
 		},
-		[activeThemeId, selectTheme, setLayerVolume, activeTheme, themeVolumes, customThemes, mainThemeVolumes, customThemeConfig]
+		[activeThemeId, selectTheme, setLayerVolume, activeTheme, themeVolumes, customThemes, mainThemeVolumes, customThemeConfig, stopAutomation]
 	);
 
+	// A hand on a slider takes over from a running timeline
 	const handleMainVolumeChange = useCallback(
 		(volume: number) => {
+			stopAutomation();
 			setMainThemeVolumes((prev) => ({ ...prev, [activeThemeId]: volume }));
 			const audioThemeId = activeThemeId === CUSTOM_THEME_ID ? customThemeConfig.baseThemeId : activeThemeId;
 			if (audioThemeId) {
 				setMainVolume(volume, 0.1, audioThemeId);
 			}
 		},
-		[setMainVolume, activeThemeId, customThemeConfig.baseThemeId]
+		[setMainVolume, stopAutomation, activeThemeId, customThemeConfig.baseThemeId]
 	);
 
 	const handleVolumeChange = useCallback(
 		(id: string, volume: number) => {
+			stopAutomation();
 			setThemeVolumes((prev) => ({
 				...prev,
 				[activeThemeId]: {
@@ -218,7 +421,33 @@ const App: React.FC = () => {
 			}));
 			setLayerVolume(id, volume);
 		},
-		[setLayerVolume, activeThemeId]
+		[setLayerVolume, stopAutomation, activeThemeId]
+	);
+
+	const handleToneChange = useCallback(
+		(layerId: string, tone: ToneSettings) => {
+			setThemeTones((prev) => ({
+				...prev,
+				[activeThemeId]: {
+					...(prev[activeThemeId] || {}),
+					[layerId]: tone
+				}
+			}));
+		},
+		[activeThemeId]
+	);
+
+	const handlePositionCommit = useCallback(
+		(layerId: string, position: Vector3) => {
+			setThemePositions((prev) => ({
+				...prev,
+				[activeThemeId]: {
+					...(prev[activeThemeId] || {}),
+					[layerId]: position
+				}
+			}));
+		},
+		[activeThemeId]
 	);
 
 	const handleLayerRemove = useCallback(
@@ -249,8 +478,49 @@ const App: React.FC = () => {
 		[activeThemeId, handleVolumeChange]
 	);
 
+	// --- Uploaded Sounds ---
+	// A sound uploaded while customizing a theme joins that theme's layers
+	const handleUploadLayer = useCallback(
+		async (file: File, details: UploadDetails) => {
+			const layer = await uploads.addUpload(file, details);
+			handleLayerAdd(layer.id);
+		},
+		[uploads.addUpload, handleLayerAdd]
+	);
+
+	// Deleting a sound takes it out of every mix that played it, along with
+	// everything saved for it: volumes, tones, stage spots, drift, timeline lanes and presets
+	const handleDeleteUpload = useCallback(
+		(layerId: string) => {
+			const withoutLayer = <T,>(byTheme: Record<string, Record<string, T>>) => Object.fromEntries(
+				Object.entries<Record<string, T>>(byTheme).map(([themeId, byLayer]) => {
+					const { [layerId]: _, ...rest } = byLayer;
+					return [themeId, rest];
+				})
+			);
+			setCustomThemes((prev) => Object.fromEntries(Object.entries<Theme>(prev).map(([themeId, theme]) => (
+				[themeId, { ...theme, layers: theme.layers.filter((id) => id !== layerId) }]
+			))));
+			setCustomThemeConfig((prev) => ({ ...prev, layers: prev.layers.filter((id) => id !== layerId) }));
+			setThemeVolumes(withoutLayer);
+			setThemeTones(withoutLayer);
+			setThemePositions(withoutLayer);
+			setThemeAutomations((prev) => Object.fromEntries(Object.entries<Automation>(prev).map(([themeId, automation]) => {
+				const { [layerId]: _, ...lanes } = automation.lanes;
+				return [themeId, { ...automation, lanes }];
+			})));
+			setDrift((prev) => {
+				const { [layerId]: _, ...layers } = prev.layers;
+				return { ...prev, layers };
+			});
+			forgetLayer(layerId);
+			uploads.removeUpload(layerId).catch((error) => console.error('Could not delete the uploaded sound:', error));
+		},
+		[uploads.removeUpload, forgetLayer]
+	);
+
 	const handleResetToDefault = useCallback(() => {
-		const defaultTheme = THEMES.find((t) => t.id === activeThemeId);
+		const defaultTheme = themes.find((t) => t.id === activeThemeId);
 		if (!defaultTheme) return;
 
 		const oldCustomTheme = customThemes[activeThemeId];
@@ -258,6 +528,12 @@ const App: React.FC = () => {
 		setCustomThemes((prev) => ({ ...prev, [activeThemeId]: defaultTheme }));
 		setThemeVolumes((prev) => ({ ...prev, [activeThemeId]: defaultTheme.defaultVolumes }));
 		setMainThemeVolumes((prev) => ({ ...prev, [activeThemeId]: defaultTheme.defaultThemeVolume }));
+		setThemeTones((prev) => ({ ...prev, [activeThemeId]: {} }));
+		setThemePositions((prev) => ({ ...prev, [activeThemeId]: {} }));
+		setThemeEnvironments((prev) => {
+			const { [activeThemeId]: _, ...rest } = prev;
+			return rest;
+		});
 		setMainVolume(defaultTheme.defaultThemeVolume, FADE_TIME, defaultTheme.id);
 
 		const allLayerIds = new Set([...oldCustomTheme.layers, ...defaultTheme.layers]);
@@ -267,7 +543,7 @@ const App: React.FC = () => {
 				: 0;
 			setLayerVolume(layerId, newVolume, FADE_TIME);
 		});
-	}, [activeThemeId, customThemes, setLayerVolume, setMainVolume]);
+	}, [themes, activeThemeId, customThemes, setLayerVolume, setMainVolume]);
 
 	const handleSaveCustomTheme = useCallback((config: { 
 		baseThemeId: string | null; 
@@ -301,19 +577,214 @@ const App: React.FC = () => {
 	
 	}, [resetAndPlayTheme, mainThemeVolumes]);
 
+	// Snapshot of what's playing right now, in the shape links and presets use
+	const currentMix = useMemo((): MixSnapshot => ({
+		themeId: activeThemeId,
+		baseThemeId: activeThemeId === CUSTOM_THEME_ID ? (customThemeConfig.baseThemeId || themes[0].id) : activeThemeId,
+		layers: activeTheme.layers,
+		volumes: Object.fromEntries(activeTheme.layers.map((id) => [id, activeVolumes[id] ?? 0])),
+		mainVolume: mainThemeVolumes[activeThemeId] ?? 0.7,
+		vantaEffect: activeTheme.vantaEffect,
+		environment: activeEnvironment,
+		positions: Object.fromEntries(activeTheme.layers.filter((id) => activePositions[id]).map((id) => [id, activePositions[id]])),
+		automation: themeAutomations[activeThemeId],
+		tones: Object.fromEntries(activeTheme.layers.filter((id) => isToneShaped(activeTones[id])).map((id) => [id, activeTones[id]]))
+	}), [themes, activeThemeId, activeTheme, activeVolumes, activeTones, activeEnvironment, activePositions, mainThemeVolumes, customThemeConfig.baseThemeId, themeAutomations]);
+
+	// Replaces the saved state of the mix's theme slot and plays it. 'reset' dips the
+	// whole mix and rebuilds it; 'crossfade' glides from the current mix like a theme change.
+	const applyMix = useCallback((mix: MixSnapshot, transition: 'reset' | 'crossfade' = 'reset') => {
+		const layerVolumes = Object.fromEntries(mix.layers.map((id) => [id, mix.volumes[id] ?? 0.5]));
+
+		setThemeVolumes((prev) => ({ ...prev, [mix.themeId]: layerVolumes }));
+		setMainThemeVolumes((prev) => ({ ...prev, [mix.themeId]: mix.mainVolume }));
+		setThemeTones((prev) => ({ ...prev, [mix.themeId]: mix.tones ?? {} }));
+		setThemePositions((prev) => ({ ...prev, [mix.themeId]: mix.positions ?? {} }));
+		setThemeEnvironments((prev) => {
+			const { [mix.themeId]: _, ...rest } = prev;
+			return mix.environment ? { ...rest, [mix.themeId]: mix.environment } : rest;
+		});
+		setThemeAutomations((prev) => {
+			const { [mix.themeId]: _, ...rest } = prev;
+			return mix.automation ? { ...rest, [mix.themeId]: mix.automation } : rest;
+		});
+		if (mix.themeId === CUSTOM_THEME_ID) {
+			setCustomThemeConfig({ baseThemeId: mix.baseThemeId, layers: mix.layers, vantaEffect: mix.vantaEffect });
+		} else {
+			setCustomThemes((prev) => {
+				const baseTheme = prev[mix.themeId] ?? themes.find((t) => t.id === mix.themeId)!;
+				return { ...prev, [mix.themeId]: { ...baseTheme, layers: mix.layers, vantaEffect: mix.vantaEffect } };
+			});
+		}
+		setActiveThemeId(mix.themeId);
+		setIsEditing(false);
+		stopAutomation();
+
+		if (transition === 'reset') {
+			resetAndPlayTheme(mix.baseThemeId, mix.layers, mix.mainVolume, layerVolumes);
+			return;
+		}
+
+		currentMix.layers.forEach((layerId) => {
+			if (!mix.layers.includes(layerId)) setLayerVolume(layerId, 0, FADE_TIME);
+		});
+		if (mix.baseThemeId === currentMix.baseThemeId) {
+			setMainVolume(mix.mainVolume, FADE_TIME, mix.baseThemeId);
+		} else {
+			selectTheme(mix.baseThemeId, mix.mainVolume);
+		}
+		mix.layers.forEach((layerId) => setLayerVolume(layerId, layerVolumes[layerId], FADE_TIME));
+	}, [themes, resetAndPlayTheme, currentMix, setLayerVolume, setMainVolume, selectTheme, stopAutomation]);
+
+	const handleApplyPreset = useCallback((preset: MixPreset) => applyMix(preset, 'crossfade'), [applyMix]);
+
+	const handleSavePreset = useCallback((name: string) => savePreset(name, currentMix), [savePreset, currentMix]);
+
+	// Sounds that came with the file are stored first, so the presets find them. If
+	// they can't be, nothing is imported and the error goes back to the library.
+	const handleImportPresets = useCallback(async (imported: ImportedPreset[], policy: PresetConflictPolicy, sounds: StoredUpload[]) => {
+		await uploads.importUploads(sounds);
+		importPresets(imported, policy);
+	}, [uploads.importUploads, importPresets]);
+
+	// Links can arrive on load or while the app is open (pasted into the same tab)
+	useEffect(() => {
+		if (!areThemeFilesLoaded) return;
+		const handleHashChange = () => {
+			const result = parseMixLink(window.location.hash);
+			if (result) setSharedMixLink(result);
+		};
+		handleHashChange();
+		window.addEventListener('hashchange', handleHashChange);
+		return () => window.removeEventListener('hashchange', handleHashChange);
+	}, [areThemeFilesLoaded]);
+
+	// Shared mixes are applied only after the start gesture, and only with consent
+	useEffect(() => {
+		if (!isInitialized || !sharedMixLink) return;
+		if (sharedMixLink.ok) {
+			const { mix } = sharedMixLink;
+			const themeName = mix.themeId === CUSTOM_THEME_ID ? 'Custom' : themes.find((t) => t.id === mix.themeId)?.name;
+			if (window.confirm(`Load the shared mix? It will replace your saved "${themeName}" mix.`)) {
+				applyMix(mix);
+			}
+		} else {
+			alert(`This shared mix link can't be used: ${sharedMixLink.error}`);
+		}
+		setSharedMixLink(null);
+		history.replaceState(null, '', window.location.pathname + window.location.search);
+	}, [isInitialized, sharedMixLink, themes, applyMix]);
+
+	const handleShare = useCallback(async () => {
+		const link = encodeMixLink(currentMix);
+		try {
+			await navigator.clipboard.writeText(link);
+			setIsLinkCopied(true);
+			setTimeout(() => setIsLinkCopied(false), 2000);
+		} catch {
+			window.prompt('Copy this link to share your mix:', link);
+		}
+	}, [currentMix]);
+
+	// --- Automation ---
+	const activeAutomation = themeAutomations[activeThemeId] ?? EMPTY_AUTOMATION;
+
+	const handleAutomationChange = useCallback((automation: Automation) => {
+		setThemeAutomations((prev) => ({ ...prev, [activeThemeId]: automation }));
+	}, [activeThemeId]);
+
+	// Stopping hands the mix back to the sliders
+	const handleStopAutomation = useCallback(() => {
+		stopAutomation();
+		currentMix.layers.forEach((layerId) => setLayerVolume(layerId, currentMix.volumes[layerId], FADE_TIME));
+		setMainVolume(currentMix.mainVolume, FADE_TIME, currentMix.baseThemeId);
+	}, [stopAutomation, currentMix, setLayerVolume, setMainVolume]);
+
+	const assetList = useMemo(() => Object.values(assets), [assets]);
+
 	const currentLayerSet = useMemo(() => {
 		return activeTheme.layers
-			.map((id) => ALL_SOUND_LAYERS.find((l) => l.id === id))
+			.map((id) => allLayers.find((l) => l.id === id))
 			.filter((l): l is SoundLayer => !!l);
-	}, [activeTheme]);
+	}, [allLayers, activeTheme]);
+
+	// Drift applies to the layers of the playing mix only
+	useEffect(() => {
+		if (!isInitialized) return;
+		allLayers.forEach((layer) => {
+			const isActive = drift.enabled && activeTheme.layers.includes(layer.id);
+			setLayerDrift(layer.id, isActive ? { ...DEFAULT_DRIFT_SETTINGS, ...drift.layers[layer.id] } : null);
+		});
+	}, [isInitialized, allLayers, drift, activeTheme.layers, setLayerDrift]);
+
+	// Stable per-layer getters, so sliders only show a live marker when something moves the level
+	const liveVolumeGetters = useMemo(() => {
+		if (!drift.enabled && !isAutomationPlaying) return {};
+		return Object.fromEntries(currentLayerSet.map((layer) => [layer.id, () => getLiveVolume(layer.id)]));
+	}, [drift.enabled, isAutomationPlaying, currentLayerSet, getLiveVolume]);
 
 	const themesForSelector = useMemo((): Theme[] => {
 		const customThemeForUI: Theme = {
 			id: CUSTOM_THEME_ID, name: 'Custom', audioSrc: '', vantaEffect: 'HALO',
 			layers: [], defaultThemeVolume: 0.7, defaultVolumes: {}
 		};
-		return [...THEMES, customThemeForUI];
-	}, []);
+		return [...themes, customThemeForUI];
+	}, [themes]);
+
+	// Themes a focus phase or the alarm can switch to: the custom slot only once it's set up
+	const mixTargetThemes = useMemo(
+		() => themesForSelector.filter((theme) => theme.id !== CUSTOM_THEME_ID || customThemeConfig.baseThemeId),
+		[themesForSelector, customThemeConfig.baseThemeId]
+	);
+
+	// --- Media Session ---
+	// Next/previous on the OS overlay step through the same themes, custom mix included
+	useEffect(() => {
+		if (!isInitialized) return;
+		const cycleTheme = (step: number) => {
+			const index = mixTargetThemes.findIndex((theme) => theme.id === activeThemeId);
+			handleThemeChange(mixTargetThemes[(index + step + mixTargetThemes.length) % mixTargetThemes.length]);
+		};
+		setMediaInfo({
+			title: activeTheme.name,
+			subtitle,
+			artwork: createArtwork(activeBackdrop),
+			onNext: () => cycleTheme(1),
+			onPrevious: () => cycleTheme(-1),
+		});
+	}, [isInitialized, activeTheme, activeThemeId, subtitle, activeBackdrop, mixTargetThemes, handleThemeChange, setMediaInfo]);
+
+	// Crossfades to a focus phase's or the alarm's sound. Targets that have since gone
+	// (a deleted preset, an unset custom theme) leave the sound as it is.
+	const applyMixTarget = useCallback((target: MixTarget) => {
+		if (!target) return;
+		if (target.type === 'preset') {
+			const preset = presets.find((p) => p.id === target.presetId);
+			if (preset) handleApplyPreset(preset);
+			return;
+		}
+		const theme = themesForSelector.find((t) => t.id === target.themeId);
+		if (!theme || (theme.id === CUSTOM_THEME_ID && !customThemeConfig.baseThemeId)) return;
+		handleThemeChange(theme);
+	}, [presets, handleApplyPreset, themesForSelector, customThemeConfig.baseThemeId, handleThemeChange]);
+
+	const handlePomodoroPhase = useCallback((session: PomodoroSession | null, cue: boolean) => {
+		if (cue && pomodoroConfig.chime) playCue();
+		if (session) applyMixTarget(session.config[session.phase]);
+	}, [pomodoroConfig.chime, playCue, applyMixTarget]);
+
+	const pomodoro = usePomodoro({ isReady: isInitialized, onPhaseChange: handlePomodoroPhase });
+
+	// Takes over from the sleep timer, wakes the context and raises the mix from silence.
+	// A mute left on overnight is lifted: an alarm that can't be heard isn't one.
+	const handleWake = useCallback(async (alarm: WakeAlarm) => {
+		sleepTimer.reset();
+		const started = await resumePlayback(alarm.rampMinutes * 60, 'gentle', true);
+		if (started) applyMixTarget(alarm.target);
+		return started;
+	}, [sleepTimer.reset, resumePlayback, applyMixTarget]);
+
+	const wakeAlarm = useWakeAlarm({ isReady: isInitialized, onWake: handleWake });
 	
 	const handleEditClick = () => {
 		if (activeThemeId === CUSTOM_THEME_ID) {
@@ -323,17 +794,10 @@ const App: React.FC = () => {
 		}
 	};
 
-	const themeFontClasses: Record<string, string> = {
-		'dark-drone': 'font-orbitron',
-		'floating-dreaming': 'font-dancing-script',
-		'focus-meditation': 'font-josefin-sans',
-		[CUSTOM_THEME_ID]: 'font-poppins'
-	};
-	const fontClass = themeFontClasses[activeTheme.id] || 'font-josefin-sans';
 	
 	const mainSliderInfo = useMemo(() => {
 		if (activeThemeId === CUSTOM_THEME_ID) {
-			const base = THEMES.find(t => t.id === customThemeConfig.baseThemeId);
+			const base = themes.find(t => t.id === customThemeConfig.baseThemeId);
             if (base) {
                 // 'Floating / Dreaming' -> 'Floating'
                 // 'Dark Drone' -> 'Dark'
@@ -343,14 +807,119 @@ const App: React.FC = () => {
 			return { label: 'Music', icon: 'fa-solid fa-music' };
 		}
 		return { label: 'Music', icon: 'fa-solid fa-music' };
-	}, [activeThemeId, customThemeConfig.baseThemeId]);
+	}, [themes, activeThemeId, customThemeConfig.baseThemeId]);
+
+	// --- Keyboard ---
+	const isMixEmpty = activeThemeId === CUSTOM_THEME_ID && !customThemeConfig.baseThemeId;
+	const sliderIds = isMixEmpty ? [] : [THEME_LANE_ID, ...currentLayerSet.map((layer) => layer.id)];
+	const selectedSlider = selectedSliderId && sliderIds.includes(selectedSliderId) ? selectedSliderId : null;
+
+	const setSliderVolume = (id: string, volume: number) => {
+		const clamped = Math.max(0, Math.min(1, Math.round(volume * 100) / 100));
+		if (id === THEME_LANE_ID) handleMainVolumeChange(clamped);
+		else handleVolumeChange(id, clamped);
+	};
+
+	const selectSlider = (step: number) => {
+		if (sliderIds.length === 0) return;
+		const index = selectedSlider ? sliderIds.indexOf(selectedSlider) : step > 0 ? -1 : sliderIds.length;
+		setSelectedSliderId(sliderIds[(index + step + sliderIds.length) % sliderIds.length]);
+	};
+
+	const nudgeSlider = (delta: number) => {
+		const id = selectedSlider ?? sliderIds[0];
+		if (!id) return;
+		const current = id === THEME_LANE_ID ? (mainThemeVolumes[activeThemeId] ?? 0.7) : (activeVolumes[id] ?? 0);
+		setSliderVolume(id, current + delta);
+		setSelectedSliderId(id);
+	};
+
+	const shortcuts: Shortcut[] = [
+		{ id: 'palette', keys: ['k', 'K'], label: 'K', mod: true, description: 'Command palette', action: () => setIsPaletteOpen(!isPaletteOpen) },
+		{ id: 'mute', keys: [' '], label: 'Space', description: 'Mute / unmute', action: () => toggleMute() },
+		{ id: 'playback', keys: ['p', 'P'], label: 'P', description: 'Pause / play', action: handleTogglePlayback },
+		{
+			id: 'theme', keys: ['1', '2', '3', '4'], label: '1–4', description: 'Switch theme',
+			action: (e) => {
+				const theme = themesForSelector[parseInt(e.key, 10) - 1];
+				if (theme) handleThemeChange(theme);
+			}
+		},
+		{ id: 'select', keys: ['ArrowLeft', 'ArrowRight'], label: '← →', description: 'Pick a slider', action: (e) => selectSlider(e.key === 'ArrowRight' ? 1 : -1) },
+		{ id: 'nudge', keys: ['ArrowUp', 'ArrowDown'], label: '↑ ↓', description: 'Nudge its volume (Shift for finer)', action: (e) => nudgeSlider((e.key === 'ArrowUp' ? 1 : -1) * (e.shiftKey ? 0.01 : 0.05)) },
+		{ id: 'hide', keys: ['h', 'H'], label: 'H', description: 'Hide / show the interface', action: () => setIsUIVisible(!isUIVisible) },
+		{ id: 'fullscreen', keys: ['f', 'F'], label: 'F', description: 'Fullscreen', action: handleToggleFullscreen },
+		{ id: 'edit', keys: ['e', 'E'], label: 'E', description: 'Edit layers', action: () => handleEditClick() },
+		{ id: 'info', keys: ['i', 'I'], label: 'I', description: 'About Etherfields', action: () => setIsInfoModalOpen(!isInfoModalOpen) },
+		{ id: 'help', keys: ['?'], label: '?', description: 'This list', action: () => setIsShortcutHelpOpen(!isShortcutHelpOpen) },
+		{
+			id: 'close', keys: ['Escape'], label: 'Esc', description: 'Close dialogs',
+			action: () => {
+				setIsShortcutHelpOpen(false);
+				setIsInfoModalOpen(false);
+				setIsExportOpen(false);
+				setIsPresetLibraryOpen(false);
+				setIsCustomEditorOpen(false);
+				setIsPaletteOpen(false);
+			}
+		},
+	];
+	// While a dialog is open, plain keys belong to it; only Esc and modifier shortcuts still apply
+	const isDialogOpen = isShortcutHelpOpen || isInfoModalOpen || isExportOpen || isPresetLibraryOpen || isCustomEditorOpen || isPaletteOpen;
+	useKeyboardShortcuts(isDialogOpen ? shortcuts.filter((s) => s.mod || s.id === 'close') : shortcuts, isInitialized);
+
+	const commands: Command[] = [
+		...themesForSelector.map((theme) => ({ id: `theme:${theme.id}`, label: `Switch to ${theme.name}`, icon: 'fa-solid fa-palette', run: () => handleThemeChange(theme) })),
+		...presets.map((preset) => ({ id: `preset:${preset.id}`, label: `Apply preset ${preset.name}`, icon: 'fa-solid fa-bookmark', run: () => handleApplyPreset(preset) })),
+		...(activeThemeId === CUSTOM_THEME_ID ? [] : allLayers.map((layer) => activeTheme.layers.includes(layer.id)
+			? { id: `remove:${layer.id}`, label: `Remove layer ${layer.name}`, icon: 'fa-solid fa-minus', run: () => handleLayerRemove(layer.id) }
+			: { id: `add:${layer.id}`, label: `Add layer ${layer.name}`, icon: 'fa-solid fa-plus', run: () => handleLayerAdd(layer.id) })),
+		{ id: 'playback', label: isPlaying ? 'Pause' : 'Play', icon: isPlaying ? 'fa-solid fa-pause' : 'fa-solid fa-play', run: handleTogglePlayback },
+		{ id: 'mute', label: isMuted ? 'Unmute' : 'Mute', icon: isMuted ? 'fa-solid fa-volume-high' : 'fa-solid fa-volume-xmark', run: () => toggleMute() },
+		{ id: 'share', label: 'Copy share link', icon: 'fa-solid fa-share-nodes', run: () => handleShare() },
+		{ id: 'export', label: 'Export mix', icon: 'fa-solid fa-download', run: () => setIsExportOpen(true) },
+		{ id: 'presets', label: 'Open preset library', icon: 'fa-solid fa-bookmark', run: () => setIsPresetLibraryOpen(true) },
+		{ id: 'automation', label: 'Open automation timeline', icon: 'fa-solid fa-chart-line', run: () => setIsAutomationEditorOpen(true) },
+		{ id: 'stage', label: 'Open sound stage', icon: 'fa-solid fa-street-view', run: () => setIsStageOpen(true) },
+		{ id: 'hide', label: isUIVisible ? 'Hide interface' : 'Show interface', icon: 'fa-solid fa-eye', run: () => setIsUIVisible(!isUIVisible) },
+		{ id: 'fullscreen', label: isFullscreen ? 'Exit fullscreen' : 'Enter fullscreen', icon: 'fa-solid fa-expand', run: handleToggleFullscreen },
+		{ id: 'shortcuts', label: 'Show keyboard shortcuts', icon: 'fa-solid fa-keyboard', run: () => setIsShortcutHelpOpen(true) },
+	];
+
+	// "set thunder 40%" -> a command per slider whose name fits, best match first
+	const getVolumeCommands = (query: string): Command[] => {
+		const match = query.trim().match(/^set\s+(.+?)\s+(\d{1,3})\s*%?$/i);
+		if (!match) return [];
+		const percent = Math.min(100, parseInt(match[2], 10));
+		const sliders = isMixEmpty ? [] : [
+			{ id: THEME_LANE_ID, name: mainSliderInfo.label, icon: mainSliderInfo.icon },
+			...currentLayerSet.map((layer) => ({ id: layer.id, name: layer.name, icon: layer.icon })),
+		];
+		return sliders
+			.map((slider) => ({ slider, score: fuzzyScore(match[1], slider.name) }))
+			.filter(({ score }) => score !== null)
+			.sort((a, b) => b.score! - a.score!)
+			.slice(0, 3)
+			.map(({ slider }) => ({
+				id: `set:${slider.id}`,
+				label: `Set ${slider.name} to ${percent}%`,
+				icon: slider.icon,
+				run: () => setSliderVolume(slider.id, percent / 100),
+			}));
+	};
+
+	const automationLanes = useMemo((): AutomationLane[] => [
+		{ id: THEME_LANE_ID, name: mainSliderInfo.label, icon: 'fa-solid fa-music', value: currentMix.mainVolume },
+		...currentLayerSet.map((layer) => ({ id: layer.id, name: layer.name, icon: layer.icon, value: currentMix.volumes[layer.id] ?? 0 }))
+	], [mainSliderInfo, currentLayerSet, currentMix]);
 
 	return (
 		<main className="w-screen h-screen overflow-hidden flex items-center justify-center p-4 text-white">
 			<VantaBackground 
-				activeTheme={isInitialized ? activeTheme : preInitTheme} 
+				backdrop={isInitialized ? activeBackdrop : findBackdrop(preInitTheme.vantaEffect)} 
 				volumes={isInitialized ? activeVolumes : {}} 
 			/>
+			{offline.isAppUpdateReady && <AppUpdateBanner onReload={offline.applyAppUpdate} />}
 
 			{!isInitialized ? (
 				<>
@@ -359,20 +928,29 @@ const App: React.FC = () => {
 						<p className="text-sm md:text-base text-white mb-8 max-w-lg">
 							Create your own immersive soundscape. Click below to begin.
 						</p>
-						<button
-							onClick={initializeAudio}
-							disabled={isLoading}
-							className="shine-hover group relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white bg-white/5 backdrop-blur-md rounded-full shadow-lg ring-1 ring-inset ring-white/20 transition-all duration-300 hover:bg-white/15 hover:shadow-xl focus:outline-none focus:ring-2 focus:ring-white/60 disabled:opacity-50 disabled:cursor-not-allowed"
-						>
-							{isLoading ? (
-								'Loading Assets...'
-							) : (
-								<>
-									<SparklesIcon className="w-6 h-6 mr-3" />
-									Start Experience
-								</>
-							)}
-						</button>
+						{wakeAlarm.armedFor !== null && (
+							<p className="text-sm text-amber-200/90 mb-6 max-w-lg">
+								<i className="fa-solid fa-clock mr-2" />
+								A wake alarm is set for {wakeAlarm.alarm.time}. Press Start to keep it armed — browsers won't play sound on a page you haven't clicked since it loaded.
+							</p>
+						)}
+						{sharedMixLink?.ok && (
+							<p className="text-sm text-white/80 mb-6 max-w-lg">
+								A shared mix is waiting — it will be offered once you start.
+							</p>
+						)}
+						{isLoading ? (
+							<LoadingScreen assets={assetList} onRetry={retryAsset} onStart={startPlayback} />
+						) : (
+							<button
+								onClick={initializeAudio}
+								disabled={!areThemeFilesLoaded}
+								className="shine-hover group relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white bg-white/5 backdrop-blur-md rounded-full shadow-lg ring-1 ring-inset ring-white/20 transition-all duration-300 hover:bg-white/15 hover:shadow-xl focus:outline-none focus:ring-2 focus:ring-white/60 disabled:opacity-50"
+							>
+								<SparklesIcon className="w-6 h-6 mr-3" />
+								{areThemeFilesLoaded ? 'Start Experience' : 'Loading themes…'}
+							</button>
+						)}
 					</div>
 					<div className="fixed z-20 bottom-6 left-1/2 -translate-x-1/2 text-white/60 text-xs md:text-sm pointer-events-none text-shadow-subtle">
 						<span>🎧 3D Binaural Sounds | Headphones recommended</span>
@@ -396,6 +974,48 @@ const App: React.FC = () => {
 								>
 									<InfoIcon className="w-6 h-6" />
 								</button>
+								<button
+									onClick={() => setIsExportOpen(true)}
+									className="shine-hover p-2 bg-white/5 backdrop-blur-md rounded-full hover:bg-white/15 transition-all duration-300 ring-1 ring-inset ring-white/20 hover:ring-white/30"
+									aria-label="Export mix"
+									title="Export mix"
+								>
+									<DownloadIcon className="w-6 h-6" />
+								</button>
+								<button
+									onClick={handleShare}
+									disabled={activeThemeId === CUSTOM_THEME_ID && !customThemeConfig.baseThemeId}
+									className="shine-hover p-2 bg-white/5 backdrop-blur-md rounded-full hover:bg-white/15 transition-all duration-300 ring-1 ring-inset ring-white/20 hover:ring-white/30 disabled:opacity-40"
+									aria-label={isLinkCopied ? 'Link copied' : 'Copy share link'}
+									title={isLinkCopied ? 'Link copied' : 'Copy share link'}
+								>
+									{isLinkCopied ? <i className="fa-solid fa-check w-6 h-6 text-lg leading-6" /> : <ShareIcon className="w-6 h-6 text-lg leading-6" />}
+								</button>
+								<button
+									onClick={() => setIsAutomationEditorOpen(!isAutomationEditorOpen)}
+									className={`shine-hover p-2 backdrop-blur-md rounded-full hover:bg-white/15 transition-all duration-300 ring-1 ring-inset ring-white/20 hover:ring-white/30 ${isAutomationPlaying ? 'bg-white/15' : 'bg-white/5'}`}
+									aria-label="Automation"
+									title={isAutomationPlaying ? 'Automation (playing)' : 'Automation'}
+								>
+									<TimelineIcon className="w-6 h-6 text-lg leading-6" />
+								</button>
+								<button
+									onClick={() => setIsPresetLibraryOpen(!isPresetLibraryOpen)}
+									className="shine-hover p-2 bg-white/5 backdrop-blur-md rounded-full hover:bg-white/15 transition-all duration-300 ring-1 ring-inset ring-white/20 hover:ring-white/30"
+									aria-label="Presets"
+									title="Presets"
+								>
+									<BookmarkIcon className="w-6 h-6" />
+								</button>
+								<button
+									onClick={() => setIsStageOpen(!isStageOpen)}
+									disabled={activeThemeId === CUSTOM_THEME_ID && !customThemeConfig.baseThemeId}
+									className="shine-hover p-2 bg-white/5 backdrop-blur-md rounded-full hover:bg-white/15 transition-all duration-300 ring-1 ring-inset ring-white/20 hover:ring-white/30 disabled:opacity-40"
+									aria-label="Sound Stage"
+									title="Sound Stage"
+								>
+									<StageIcon className="w-6 h-6 text-lg leading-6" />
+								</button>
 								<button
 									onClick={handleEditClick}
 									className="shine-hover p-2 bg-white/5 backdrop-blur-md rounded-full hover:bg-white/15 transition-all duration-300 ring-1 ring-inset ring-white/20 hover:ring-white/30"
@@ -411,11 +1031,24 @@ const App: React.FC = () => {
 									{activeTheme.name.split('/')[0]}
 								</h1>
 								<p className="text-white mt-4 text-sm">
-									{THEME_SUBTITLES[activeTheme.id] ?? 'Shape your own ambient world: blend tones, textures, and nature into a realm uniquely yours'}
+									{subtitle}
 								</p>
 							</header>
 
 							<ThemeSelector themes={themesForSelector} activeTheme={activeTheme} onSelect={handleThemeChange} />
+							<PresetQuickSwitch presets={presets} onApply={handleApplyPreset} />
+							{wakeAlarm.blockedAlarm && (
+								<div className="flex justify-center mt-4">
+									<button
+										onClick={wakeAlarm.retry}
+										className="shine-hover flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-amber-300/15 backdrop-blur-md rounded-full hover:bg-amber-300/25 transition-colors ring-1 ring-inset ring-amber-200/40"
+									>
+										<i className="fa-solid fa-sun" />
+										Your {wakeAlarm.blockedAlarm.time} alarm was blocked by the browser's autoplay rules. Tap to wake.
+									</button>
+								</div>
+							)}
+							{pomodoro.session && <PomodoroCountdown session={pomodoro.session} remaining={pomodoro.remaining} />}
                             
                             <div className="slider-container relative w-full overflow-x-auto pb-4 -mb-4">
                                 <div className="flex flex-row justify-start md:justify-center items-end gap-x-4 md:gap-x-6 my-8 px-4 md:px-2 h-60 min-h-60 min-w-max">
@@ -437,6 +1070,8 @@ const App: React.FC = () => {
                                                 iconClassName={mainSliderInfo.icon}
                                                 value={mainThemeVolumes[activeThemeId] ?? 0.7}
                                                 onChange={(e) => handleMainVolumeChange(parseFloat(e.target.value))}
+                                                isSelected={selectedSlider === THEME_LANE_ID}
+                                                onSelect={() => setSelectedSliderId(THEME_LANE_ID)}
                                             />
                                             {currentLayerSet.map((layer) => (
                                                 <VolumeSlider
@@ -447,38 +1082,188 @@ const App: React.FC = () => {
                                                     onChange={(e) => handleVolumeChange(layer.id, parseFloat(e.target.value))}
                                                     isEditing={isEditing && activeThemeId !== CUSTOM_THEME_ID}
                                                     onRemove={() => handleLayerRemove(layer.id)}
+                                                    getLiveValue={liveVolumeGetters[layer.id]}
+                                                    onDragStart={() => pauseLayerDrift(layer.id)}
+                                                    onDragEnd={() => resumeLayerDrift(layer.id)}
+                                                    onToneClick={() => setToneLayerId(toneLayerId === layer.id ? null : layer.id)}
+                                                    isToneOpen={toneLayerId === layer.id}
+                                                    isToneShaped={layer.kind !== 'binaural' && isToneShaped(activeTones[layer.id])}
+                                                    isSelected={selectedSlider === layer.id}
+                                                    onSelect={() => setSelectedSliderId(layer.id)}
                                                 />
                                             ))}
                                         </>
                                     )}
                                 </div>
+                                {showMeters && !(activeTheme.id === CUSTOM_THEME_ID && !customThemeConfig.baseThemeId) && (
+                                    <LevelMeterStrip
+                                        ids={['theme', ...currentLayerSet.map((layer) => layer.id)]}
+                                        getLevels={getLevels}
+                                        isActive={isUIVisible}
+                                    />
+                                )}
                             </div>
 
 
+							{toneLayerId && currentLayerSet.some((layer) => layer.id === toneLayerId && layer.kind === 'binaural') && (
+								<BinauralEditor
+									layerName={currentLayerSet.find((layer) => layer.id === toneLayerId)!.name}
+									settings={binaural}
+									onChange={setBinauralSettings}
+									onClose={() => setToneLayerId(null)}
+								/>
+							)}
+
+							{toneLayerId && currentLayerSet.some((layer) => layer.id === toneLayerId && layer.kind !== 'binaural') && (
+								<ToneEditor
+									layerName={currentLayerSet.find((layer) => layer.id === toneLayerId)!.name}
+									tone={activeTones[toneLayerId] ?? DEFAULT_TONE}
+									onChange={(tone) => handleToneChange(toneLayerId, tone)}
+									onClose={() => setToneLayerId(null)}
+								/>
+							)}
+
 							{isEditing && activeThemeId !== CUSTOM_THEME_ID && (
 								<LayerEditor
+									allLayers={allLayers}
 									activeThemeLayers={activeTheme.layers}
 									onAddLayer={handleLayerAdd}
 									onReset={handleResetToDefault}
+									onUpload={uploads.isSupported ? handleUploadLayer : undefined}
+									onDeleteUpload={handleDeleteUpload}
+								/>
+							)}
+
+							{isStageOpen && currentLayerSet.length > 0 && (
+								<SoundStage
+									layers={currentLayerSet.filter((layer) => layer.kind !== 'binaural')}
+									positions={activePositions}
+									onMove={setLayerPosition}
+									onCommit={handlePositionCommit}
+									onReset={() => setThemePositions((prev) => ({ ...prev, [activeThemeId]: {} }))}
+								/>
+							)}
+
+							{isPresetLibraryOpen && (
+								<PresetLibrary
+									presets={presets}
+									onApply={handleApplyPreset}
+									onSave={handleSavePreset}
+									onRename={renamePreset}
+									onDuplicate={duplicatePreset}
+									onDelete={deletePreset}
+									onImport={handleImportPresets}
+									uploads={uploads.uploads}
+								/>
+							)}
+
+							{isAutomationEditorOpen && !(activeThemeId === CUSTOM_THEME_ID && !customThemeConfig.baseThemeId) && (
+								<AutomationEditor
+									automation={activeAutomation}
+									lanes={automationLanes}
+									isPlaying={isAutomationPlaying}
+									getPosition={getAutomationPosition}
+									onChange={handleAutomationChange}
+									onPlay={() => startAutomation(activeAutomation)}
+									onStop={handleStopAutomation}
 								/>
 							)}
 
-							<MasterControls isMuted={isMuted} onToggleMute={toggleMute} />
+							<LoadingScreen assets={assetList} onRetry={retryAsset} onStart={startPlayback} compact />
+
+							<Visualizer
+								analyser={analyser}
+								isActive={isUIVisible}
+								showMeters={showMeters}
+								onToggleMeters={() => setShowMeters(!showMeters)}
+							/>
+
+							<MasterControls isMuted={isMuted} onToggleMute={toggleMute} isPlaying={isPlaying} onTogglePlayback={handleTogglePlayback}>
+								<EnvironmentControls
+									environment={activeEnvironment}
+									onChange={(environment) => setThemeEnvironments((prev) => ({ ...prev, [activeThemeId]: environment }))}
+								/>
+								<DriftControls drift={drift} layers={currentLayerSet} onChange={setDrift} />
+								<PomodoroControls
+									session={pomodoro.session}
+									remaining={pomodoro.remaining}
+									config={pomodoroConfig}
+									themes={mixTargetThemes}
+									presets={presets}
+									onConfigChange={setPomodoroConfig}
+									onStart={pomodoro.start}
+									onSkip={pomodoro.skip}
+									onStop={pomodoro.stop}
+								/>
+								<WakeAlarmControls
+									alarm={wakeAlarm.alarm}
+									armedFor={wakeAlarm.armedFor}
+									warning={wakeAlarm.warning}
+									themes={mixTargetThemes}
+									presets={presets}
+									onArm={wakeAlarm.arm}
+									onDisarm={wakeAlarm.disarm}
+								/>
+								<SleepTimer
+									phase={sleepTimer.phase}
+									remaining={sleepTimer.remaining}
+									onStart={sleepTimer.start}
+									onCancel={sleepTimer.cancel}
+								/>
+								{offline.isSupported && (
+									<OfflineControls
+										isOnline={offline.isOnline}
+										items={offlineItems}
+										pins={offline.pins}
+										statuses={offline.statuses}
+										storage={offline.storage}
+										onPinChange={offline.setPinned}
+										hasChangedFiles={offline.hasChangedFiles}
+										onUpdateFiles={offline.updateFiles}
+									/>
+								)}
+							</MasterControls>
 						</div>
 					</div>
 
 					<InfoModal isOpen={isInfoModalOpen} onClose={() => setIsInfoModalOpen(false)} />
+					<CommandPalette
+						isOpen={isPaletteOpen}
+						commands={commands}
+						getQueryCommands={getVolumeCommands}
+						onClose={() => setIsPaletteOpen(false)}
+					/>
+					<ShortcutHelp isOpen={isShortcutHelpOpen} shortcuts={shortcuts} onClose={() => setIsShortcutHelpOpen(false)} />
+					<ExportDialog
+						isOpen={isExportOpen}
+						onClose={() => setIsExportOpen(false)}
+						mixName={activeTheme.name.split(' / ')[0]}
+						themeVolume={mainThemeVolumes[activeThemeId] ?? 0.7}
+						renderExport={renderExport}
+					/>
 					{isCustomEditorOpen && <CustomThemeEditor
 						onClose={() => setIsCustomEditorOpen(false)}
 						onSave={handleSaveCustomTheme}
 						currentConfig={customThemeConfig}
 						currentVolumes={themeVolumes[CUSTOM_THEME_ID] || {}}
-						allBaseThemes={THEMES}
-						allLayers={ALL_SOUND_LAYERS}
+						baseThemes={definitions}
+						backdrops={backdrops.filter((backdrop) => !backdrop.hidden)}
+						allLayers={allLayers}
+						onUpload={uploads.isSupported ? uploads.addUpload : undefined}
+						onDeleteUpload={handleDeleteUpload}
 					/>}
 
 					{/* Bottom-right controls: icon-only */}
 					<div className="fixed z-20 bottom-6 right-6 flex gap-4">
+						<button
+							onClick={() => setIsShortcutHelpOpen(true)}
+							className="text-white/60 hover:text-white transition-colors duration-150"
+							aria-label="Keyboard shortcuts"
+							title="Keyboard shortcuts (?)"
+						>
+							<i className="fa-solid fa-keyboard text-2xl"></i>
+						</button>
+
 						<button
 							onClick={handleToggleFullscreen}
 							className="text-white/60 hover:text-white transition-colors duration-150"
@@ -0,0 +1,165 @@
+import { BinauralSettings, ToneSettings } from '../types';
+import { DEFAULT_TONE } from '../constants';
+import { ToneShaper } from './ToneShaper';
+
+const TONE_LEVEL = 0.25; // Pure sines are loud next to recordings at the same slider value
+const SETTLE_TIME = 0.05; // s, time constant for carrier and beat changes
+const MODE_FADE = 0.3; // s, crossfade when switching between binaural and isochronic
+
+// A soft square wave (the first few odd harmonics), so isochronic pulses have
+// clear on and off phases without clicking
+const PULSE_HARMONICS = [0, 1, 0, 1 / 3, 0, 1 / 5];
+
+// --- Binaural Beat Player ---
+// Two sine oscillators hard-panned left and right, the right one `beat` Hz above
+// the carrier: the brain hears the difference as a slow beat. Isochronic mode
+// gates the left tone on and off `beat` times a second instead, and plays it in
+// both ears, so it also works over speakers. Both paths run all the time and
+// switching modes crossfades between them. Oscillators can only be started once,
+// so each start() builds a fresh set. Must not go through a panner, which would
+// blend the ears back together.
+export class BinauralPlayer {
+  private context: BaseAudioContext;
+  private settings: BinauralSettings;
+  private left: OscillatorNode | null = null;
+  private right: OscillatorNode | null = null;
+  private pulse: OscillatorNode | null = null; // Runs at the beat rate, opening and closing the isochronic gate
+  private pulseWave: PeriodicWave;
+  private merger: ChannelMergerNode;
+  private gate: GainNode;
+  private pulseDepth: GainNode;
+  private binauralGain: GainNode;
+  private isochronicGain: GainNode;
+  private toneShaper: ToneShaper;
+  private gainNode: GainNode;
+  private modulationNode: GainNode;
+
+  constructor(context: BaseAudioContext, settings: BinauralSettings, initialGain: number, tone: ToneSettings = DEFAULT_TONE) {
+    this.context = context;
+    this.settings = settings;
+    this.toneShaper = new ToneShaper(context, tone);
+    this.gainNode = context.createGain();
+    this.gainNode.gain.value = initialGain;
+    this.toneShaper.connect(this.gainNode);
+    this.modulationNode = context.createGain();
+    this.gainNode.connect(this.modulationNode);
+
+    // Binaural: left -> left ear, right -> right ear
+    this.merger = context.createChannelMerger(2);
+    this.binauralGain = context.createGain();
+    this.merger.connect(this.binauralGain);
+    this.binauralGain.connect(this.toneShaper.input);
+
+    // Isochronic: left tone through a gate swinging between 0 and 1
+    this.pulseWave = context.createPeriodicWave(new Float32Array(PULSE_HARMONICS.length), new Float32Array(PULSE_HARMONICS));
+    this.gate = context.createGain();
+    this.gate.gain.value = 0.5;
+    this.pulseDepth = context.createGain();
+    this.pulseDepth.gain.value = 0.5;
+    this.pulseDepth.connect(this.gate.gain);
+    this.isochronicGain = context.createGain();
+    this.gate.connect(this.isochronicGain);
+    this.isochronicGain.connect(this.toneShaper.input);
+
+    this.binauralGain.gain.value = settings.mode === 'binaural' ? TONE_LEVEL : 0;
+    this.isochronicGain.gain.value = settings.mode === 'isochronic' ? TONE_LEVEL : 0;
+  }
+
+  connect(destination: AudioNode) {
+    this.modulationNode.connect(destination);
+  }
+
+  disconnect() {
+    this.modulationNode.disconnect();
+  }
+
+  get gain() {
+    return this.gainNode.gain;
+  }
+
+  setTone(settings: ToneSettings) {
+    this.toneShaper.update(settings);
+  }
+
+  get modulation() {
+    return this.modulationNode.gain;
+  }
+
+  update(settings: BinauralSettings) {
+    const previous = this.settings;
+    this.settings = settings;
+    const now = this.context.currentTime;
+
+    if (settings.mode !== previous.mode) {
+      this.fadeTo(this.binauralGain.gain, settings.mode === 'binaural' ? TONE_LEVEL : 0, now);
+      this.fadeTo(this.isochronicGain.gain, settings.mode === 'isochronic' ? TONE_LEVEL : 0, now);
+    }
+
+    const { carrier, beat, glide } = settings;
+    const changed = carrier !== previous.carrier || beat !== previous.beat
+      || glide?.beat !== previous.glide?.beat || glide?.minutes !== previous.glide?.minutes;
+    if (!changed || !this.left || !this.right || !this.pulse) return; // Stopped: picked up by the next start()
+
+    [this.left.frequency, this.right.frequency, this.pulse.frequency].forEach(param => param.cancelScheduledValues(now));
+    this.left.frequency.setTargetAtTime(carrier, now, SETTLE_TIME);
+    this.right.frequency.setTargetAtTime(carrier + beat, now, SETTLE_TIME);
+    this.pulse.frequency.setTargetAtTime(beat, now, SETTLE_TIME);
+    this.scheduleGlide(now + SETTLE_TIME * 5);
+  }
+
+  // Ramps the beat from its set value to the glide target, starting at `time`
+  private scheduleGlide(time: number) {
+    const { carrier, beat, glide } = this.settings;
+    if (!glide || glide.minutes <= 0 || !this.right || !this.pulse) return;
+    const end = time + glide.minutes * 60;
+    this.right.frequency.setValueAtTime(carrier + beat, time);
+    this.right.frequency.linearRampToValueAtTime(carrier + glide.beat, end);
+    this.pulse.frequency.setValueAtTime(beat, time);
+    this.pulse.frequency.linearRampToValueAtTime(glide.beat, end);
+  }
+
+  // Builds and starts a fresh set of oscillators at `time`
+  private startOscillators(time: number): OscillatorNode[] {
+    const { carrier, beat } = this.settings;
+    this.left = this.context.createOscillator();
+    this.left.frequency.value = carrier;
+    this.left.connect(this.merger, 0, 0);
+    this.left.connect(this.gate);
+    this.right = this.context.createOscillator();
+    this.right.frequency.value = carrier + beat;
+    this.right.connect(this.merger, 0, 1);
+    this.pulse = this.context.createOscillator();
+    this.pulse.setPeriodicWave(this.pulseWave);
+    this.pulse.frequency.value = beat;
+    this.pulse.connect(this.pulseDepth);
+
+    const oscillators = [this.left, this.right, this.pulse];
+    oscillators.forEach(osc => osc.start(time));
+    this.scheduleGlide(time);
+    return oscillators;
+  }
+
+  private fadeTo(param: AudioParam, value: number, time: number) {
+    param.cancelScheduledValues(time);
+    param.setValueAtTime(param.value, time);
+    param.linearRampToValueAtTime(value, time + MODE_FADE);
+  }
+
+  start() {
+    if (this.left) return;
+    this.startOscillators(this.context.currentTime + 0.1);
+  }
+
+  // Plays the tones across [startTime, endTime), glide included. Used for offline rendering.
+  scheduleRange(startTime: number, endTime: number) {
+    this.startOscillators(startTime).forEach(osc => osc.stop(endTime));
+  }
+
+  stop() {
+    [this.left, this.right, this.pulse].forEach(osc => {
+      osc?.stop();
+      osc?.disconnect();
+    });
+    this.left = this.right = this.pulse = null;
+  }
+}
@@ -0,0 +1,89 @@
+import { DriftSettings } from '../types';
+
+const TICK_INTERVAL = 1000; // How often we wake up to schedule (ms)
+const SEGMENTS_PER_WANDER = 8; // Each wander (or LFO cycle) is drawn as this many ramps
+const SETTLE_TIME = 0.3; // seconds to glide back to the set point when paused
+
+// --- Drift Modulator ---
+// Keeps a layer "alive" by moving its modulation gain around 1.0, so the level
+// wanders inside a band around the slider value without touching the slider's
+// own gain. Segments are scheduled a little ahead on the context clock.
+export class DriftModulator {
+  private context: BaseAudioContext;
+  private param: AudioParam;
+  private settings: DriftSettings;
+
+  private isRunning = false;
+  private timerId: number | undefined;
+  private segmentEndTime = 0;
+  private position = 0; // -1..1 within the band
+  private phase = 0; // LFO phase in segments
+
+  constructor(context: BaseAudioContext, param: AudioParam, settings: DriftSettings) {
+    this.context = context;
+    this.param = param;
+    this.settings = settings;
+  }
+
+  // New settings take over from the next segment
+  update(settings: DriftSettings) {
+    this.settings = settings;
+  }
+
+  start() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    const now = this.context.currentTime;
+    this.param.cancelScheduledValues(now);
+    this.param.setValueAtTime(this.param.value, now);
+    this.segmentEndTime = now;
+    this.tick();
+  }
+
+  // Glides back to the set point and holds there
+  stop() {
+    this.isRunning = false;
+    if (this.timerId) {
+      window.clearTimeout(this.timerId);
+      this.timerId = undefined;
+    }
+    const now = this.context.currentTime;
+    this.param.cancelScheduledValues(now);
+    this.param.setValueAtTime(this.param.value, now);
+    this.param.linearRampToValueAtTime(1, now + SETTLE_TIME);
+    this.position = 0;
+    this.phase = 0;
+  }
+
+  private get segmentDuration() {
+    return 60 / Math.max(0.05, this.settings.rate) / SEGMENTS_PER_WANDER;
+  }
+
+  private nextPosition() {
+    if (this.settings.shape === 'wave') {
+      this.phase = (this.phase + 1) % SEGMENTS_PER_WANDER;
+      return Math.sin((2 * Math.PI * this.phase) / SEGMENTS_PER_WANDER);
+    }
+    // Random walk, reflected back into the band at its edges
+    let next = this.position + (Math.random() * 2 - 1) * 0.5;
+    if (next > 1) next = 2 - next;
+    if (next < -1) next = -2 - next;
+    return next;
+  }
+
+  private tick = () => {
+    if (!this.isRunning) return;
+
+    const now = this.context.currentTime;
+    const duration = this.segmentDuration;
+    if (this.segmentEndTime < now) this.segmentEndTime = now;
+    // Stay one segment (and at least a couple of seconds) ahead of the clock
+    while (this.segmentEndTime < now + Math.max(2, duration)) {
+      this.position = this.nextPosition();
+      this.segmentEndTime += duration;
+      this.param.linearRampToValueAtTime(1 + this.settings.depth * this.position, this.segmentEndTime);
+    }
+
+    this.timerId = window.setTimeout(this.tick, TICK_INTERVAL);
+  };
+}
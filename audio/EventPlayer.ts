@@ -0,0 +1,163 @@
+import { EventLayerConfig, SoundLayer, ToneSettings } from '../types';
+import { DEFAULT_TONE } from '../constants';
+import { ToneShaper } from './ToneShaper';
+
+export interface LoadedClip {
+  buffer: AudioBuffer;
+  start: number; // seconds
+  duration: number; // seconds
+}
+
+// Every file an event layer's pool draws from
+export const clipSources = (layer: SoundLayer): string[] =>
+  Array.from(new Set((layer.events?.clips ?? []).map(clip => clip.src ?? layer.audioSrc)));
+
+// Cuts the pool out of the decoded files, keeping slices inside their recording
+export const sliceClips = (layer: SoundLayer, buffers: Map<string, AudioBuffer>): LoadedClip[] =>
+  (layer.events?.clips ?? []).flatMap(clip => {
+    const buffer = buffers.get(clip.src ?? layer.audioSrc);
+    if (!buffer) return [];
+    const start = Math.min(clip.start ?? 0, Math.max(0, buffer.duration - 0.5));
+    const duration = Math.min(clip.duration ?? buffer.duration, buffer.duration - start);
+    return duration > 0 ? [{ buffer, start, duration }] : [];
+  });
+
+const EDGE_FADE = 0.02; // seconds; slices are cut mid-sound, so every hit fades in and out
+
+// --- Stochastic Event Player ---
+// Fires clips from a pool at random moments instead of looping one recording.
+// Hits arrive as a Poisson process whose rate follows the layer gain, so the
+// slider thins a layer out as well as quietening it. Each hit gets its own gain,
+// stereo position and detune. Like LoopingPlayer, hits are scheduled a little
+// ahead on the context clock from a timer that wakes up regularly.
+export class EventPlayer {
+  private context: BaseAudioContext;
+  private clips: LoadedClip[];
+  private config: EventLayerConfig;
+  private toneShaper: ToneShaper; // Sits between the hits and the gain
+  private gainNode: GainNode;
+  private modulationNode: GainNode;
+
+  private isPlaying = false;
+  private nextHitTime: number | null = null;
+  private timerId: number | undefined;
+
+  // Scheduling configuration
+  private lookahead = 250.0; // How often we wake up to schedule (ms)
+  private scheduleAheadTime = 1.0; // How far ahead to schedule hits (s)
+
+  constructor(context: BaseAudioContext, clips: LoadedClip[], config: EventLayerConfig, initialGain: number, tone: ToneSettings = DEFAULT_TONE) {
+    this.context = context;
+    this.clips = clips;
+    this.config = config;
+    this.gainNode = context.createGain();
+    this.gainNode.gain.value = initialGain;
+    this.toneShaper = new ToneShaper(context, tone);
+    this.toneShaper.connect(this.gainNode);
+    this.modulationNode = context.createGain();
+    this.gainNode.connect(this.modulationNode);
+  }
+
+  connect(destination: AudioNode) {
+    this.modulationNode.connect(destination);
+  }
+
+  disconnect() {
+    this.modulationNode.disconnect();
+  }
+
+  get gain() {
+    return this.gainNode.gain;
+  }
+
+  setTone(settings: ToneSettings) {
+    this.toneShaper.update(settings);
+  }
+
+  get modulation() {
+    return this.modulationNode.gain;
+  }
+
+  // Seconds until the next hit at the given slider level, or null for silence
+  private drawInterval(level: number): number | null {
+    const hitsPerSecond = (this.config.density * Math.max(0, Math.min(1, level))) / 60;
+    if (hitsPerSecond <= 0) return null;
+    return -Math.log(1 - Math.random()) / hitsPerSecond;
+  }
+
+  private scheduler = () => {
+    if (!this.isPlaying) return;
+
+    const now = this.context.currentTime;
+    const level = this.gainNode.gain.value;
+    if (this.nextHitTime === null || this.nextHitTime < now) {
+      // Silent until now, or woken up late: start a fresh wait from here
+      const interval = this.drawInterval(level);
+      this.nextHitTime = interval === null ? null : now + interval;
+    }
+    while (this.nextHitTime !== null && this.nextHitTime < now + this.scheduleAheadTime) {
+      this.playHitAt(this.nextHitTime);
+      const interval = this.drawInterval(level);
+      this.nextHitTime = interval === null ? null : this.nextHitTime + interval;
+    }
+
+    this.timerId = window.setTimeout(this.scheduler, this.lookahead);
+  };
+
+  private playHitAt(time: number) {
+    if (this.clips.length === 0) return;
+    const clip = this.clips[Math.floor(Math.random() * this.clips.length)];
+    const [minGain, maxGain] = this.config.gain;
+
+    const source = this.context.createBufferSource();
+    source.buffer = clip.buffer;
+    source.detune.value = (Math.random() * 2 - 1) * this.config.detune;
+    // Detuning changes the playback speed, and with it how long the slice lasts
+    const length = clip.duration / source.playbackRate.value / Math.pow(2, source.detune.value / 1200);
+
+    const hitGain = this.context.createGain();
+    const peak = minGain + Math.random() * (maxGain - minGain);
+    const fade = Math.min(EDGE_FADE, length / 4);
+    hitGain.gain.setValueAtTime(0, time);
+    hitGain.gain.linearRampToValueAtTime(peak, time + fade);
+    hitGain.gain.setValueAtTime(peak, time + length - fade);
+    hitGain.gain.linearRampToValueAtTime(0, time + length);
+
+    const panner = this.context.createStereoPanner();
+    panner.pan.value = (Math.random() * 2 - 1) * this.config.pan;
+
+    source.connect(hitGain);
+    hitGain.connect(panner);
+    panner.connect(this.toneShaper.input);
+    source.start(time, clip.start, clip.duration);
+    source.onended = () => panner.disconnect();
+  }
+
+  start() {
+    if (this.isPlaying) return;
+    this.isPlaying = true;
+    this.nextHitTime = null;
+    this.scheduler();
+  }
+
+  // Schedules every hit in [startTime, endTime) in one go, with density set by
+  // the initial gain. Used for offline rendering.
+  scheduleRange(startTime: number, endTime: number) {
+    let time = startTime;
+    while (true) {
+      const interval = this.drawInterval(this.gainNode.gain.value);
+      if (interval === null) return;
+      time += interval;
+      if (time >= endTime) return;
+      this.playHitAt(time);
+    }
+  }
+
+  stop() {
+    this.isPlaying = false;
+    if (this.timerId) {
+      window.clearTimeout(this.timerId);
+      this.timerId = undefined;
+    }
+  }
+}
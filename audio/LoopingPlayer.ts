@@ -0,0 +1,111 @@
+import { ToneSettings } from '../types';
+import { DEFAULT_TONE } from '../constants';
+import { ToneShaper } from './ToneShaper';
+
+// --- High-Precision Looping Player ---
+// This class implements a robust scheduling pattern (often called the "metronome pattern")
+// to create seamless audio loops by scheduling playback slightly ahead of time.
+// It overcomes the gaps inherent in some audio files (like MP3s) when using `loop=true`.
+const OVERLAP_DURATION = 0.1; // 100ms overlap to cover potential gaps
+
+export class LoopingPlayer {
+  private context: BaseAudioContext;
+  private buffer: AudioBuffer;
+  private toneShaper: ToneShaper; // Sits between the sources and the gain
+  private gainNode: GainNode;
+  private modulationNode: GainNode; // Multiplies the set gain, for drift around the slider value
+  
+  private isPlaying = false;
+  private nextNoteTime = 0.0;
+  private timerId: number | undefined;
+
+  // Scheduling configuration
+  private lookahead = 25.0; // How often we wake up to schedule (ms)
+  private scheduleAheadTime = 0.1; // How far ahead to schedule audio (s)
+
+  constructor(context: BaseAudioContext, buffer: AudioBuffer, initialGain: number, tone: ToneSettings = DEFAULT_TONE) {
+    this.context = context;
+    this.buffer = buffer;
+    this.gainNode = context.createGain();
+    this.gainNode.gain.value = initialGain;
+    this.toneShaper = new ToneShaper(context, tone);
+    this.toneShaper.connect(this.gainNode);
+    this.modulationNode = context.createGain();
+    this.gainNode.connect(this.modulationNode);
+  }
+
+  connect(destination: AudioNode) {
+    this.modulationNode.connect(destination);
+  }
+
+  disconnect() {
+    this.modulationNode.disconnect();
+  }
+
+  get gain() {
+      return this.gainNode.gain;
+  }
+
+  setTone(settings: ToneSettings) {
+    this.toneShaper.update(settings);
+  }
+
+  get modulation() {
+      return this.modulationNode.gain;
+  }
+
+  private scheduler = () => {
+    if (!this.isPlaying) return;
+
+    // Woken up late (a throttled timer): carry on from now instead of firing every
+    // missed repetition at once
+    if (this.nextNoteTime < this.context.currentTime) this.nextNoteTime = this.context.currentTime;
+
+    // Schedule notes that will need to play before the next interval
+    while (this.nextNoteTime < this.context.currentTime + this.scheduleAheadTime) {
+      this.scheduleNote(this.nextNoteTime);
+      this.nextNoteTime += this.buffer.duration - OVERLAP_DURATION;
+    }
+    
+    this.timerId = window.setTimeout(this.scheduler, this.lookahead);
+  }
+
+  private scheduleNote = (time: number) => {
+    if (!this.isPlaying) return;
+    this.playBufferAt(time);
+  }
+
+  private playBufferAt(time: number) {
+    const source = this.context.createBufferSource();
+    source.buffer = this.buffer;
+    source.connect(this.toneShaper.input);
+    source.start(time);
+  }
+
+  start() {
+    if (this.isPlaying || this.buffer.duration <= OVERLAP_DURATION) return;
+    this.isPlaying = true;
+    // After a suspend the clock stood still, so the last repetition is still mid-way and
+    // the next one is due where we left off. Otherwise start fresh, with a small delay.
+    this.nextNoteTime = Math.max(this.nextNoteTime, this.context.currentTime + 0.1);
+    this.scheduler();
+  }
+
+  // Schedules every repetition needed to cover [startTime, endTime) in one go,
+  // with the same overlap as live playback. Used for offline rendering, where
+  // there is no running clock to wake up on.
+  scheduleRange(startTime: number, endTime: number) {
+    if (this.buffer.duration <= OVERLAP_DURATION) return;
+    for (let time = startTime; time < endTime; time += this.buffer.duration - OVERLAP_DURATION) {
+      this.playBufferAt(time);
+    }
+  }
+
+  stop() {
+    this.isPlaying = false;
+    if (this.timerId) {
+      window.clearTimeout(this.timerId);
+      this.timerId = undefined;
+    }
+  }
+}
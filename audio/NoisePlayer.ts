@@ -0,0 +1,166 @@
+import { NoiseColor, NoiseLayerConfig, ToneSettings } from '../types';
+import { DEFAULT_TONE } from '../constants';
+import { ToneShaper } from './ToneShaper';
+
+const LOOP_SECONDS = 10;
+const WRAP_SECONDS = 0.5; // Length of the crossfade that joins the end of the loop to its start
+const TARGET_RMS = 0.12; // Every colour is levelled to this, so switching colours keeps the loudness
+const TILT_PIVOT = 1000; // Hz; the tilt raises one side of this and lowers the other
+
+// One channel of raw noise in the given colour
+const generateNoise = (color: NoiseColor, length: number): Float32Array => {
+  const data = new Float32Array(length);
+  // Paul Kellet's pink filter state, and the brown integrator
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  let brown = 0;
+  for (let i = 0; i < length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'white') {
+      data[i] = white;
+    } else if (color === 'pink') {
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.969 * b2 + white * 0.153852;
+      b3 = 0.8665 * b3 + white * 0.3104856;
+      b4 = 0.55 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.016898;
+      data[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+      b6 = white * 0.115926;
+    } else {
+      brown = (brown + 0.02 * white) / 1.02; // Leaky, so it can't wander off to DC
+      data[i] = brown;
+    }
+  }
+  return data;
+};
+
+// Generates a buffer that loops without a seam. A little extra noise is made past
+// the end and crossfaded (equal power) over the start, so the last sample runs
+// straight on into the first. A hum is tuned to fit a whole number of cycles.
+export const createNoiseBuffer = (context: BaseAudioContext, config: NoiseLayerConfig): AudioBuffer => {
+  const { sampleRate } = context;
+  const length = Math.round(LOOP_SECONDS * sampleRate);
+  const wrap = Math.round(WRAP_SECONDS * sampleRate);
+  const buffer = context.createBuffer(2, length, sampleRate);
+  const humFrequency = config.hum ? Math.max(1, Math.round(config.hum * LOOP_SECONDS)) / LOOP_SECONDS : 0;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const raw = generateNoise(config.color, length + wrap);
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) data[i] = raw[i];
+    for (let i = 0; i < wrap; i++) {
+      const t = (i / wrap) * (Math.PI / 2);
+      data[i] = raw[i] * Math.sin(t) + raw[length + i] * Math.cos(t);
+    }
+
+    let sum = 0;
+    let mean = 0;
+    for (let i = 0; i < length; i++) mean += data[i] / length;
+    for (let i = 0; i < length; i++) {
+      data[i] -= mean;
+      sum += data[i] * data[i];
+    }
+    const scale = sum > 0 ? TARGET_RMS / Math.sqrt(sum / length) : 0;
+    for (let i = 0; i < length; i++) {
+      data[i] *= scale;
+      if (humFrequency) {
+        const phase = (2 * Math.PI * humFrequency * i) / sampleRate;
+        data[i] += TARGET_RMS * (0.6 * Math.sin(phase) + 0.3 * Math.sin(2 * phase) + 0.12 * Math.sin(3 * phase));
+      }
+    }
+  }
+  return buffer;
+};
+
+// --- Noise Player ---
+// Plays a generated noise loop: source -> colour filter -> tilt -> tone shaping -> gain.
+// The buffer is seamless, so unlike LoopingPlayer a native loop is enough and no
+// repetitions are overlapped (overlapping noise would bump the level at each join).
+export class NoisePlayer {
+  private context: BaseAudioContext;
+  private buffer: AudioBuffer;
+  private source: AudioBufferSourceNode | null = null;
+  private input: AudioNode; // Where sources connect: the lowpass, or the tilt when there is none
+  private toneShaper: ToneShaper;
+  private gainNode: GainNode;
+  private modulationNode: GainNode;
+
+  constructor(context: BaseAudioContext, config: NoiseLayerConfig, initialGain: number, tone: ToneSettings = DEFAULT_TONE) {
+    this.context = context;
+    this.buffer = createNoiseBuffer(context, config);
+
+    const tiltLow = context.createBiquadFilter();
+    tiltLow.type = 'lowshelf';
+    tiltLow.frequency.value = TILT_PIVOT;
+    tiltLow.gain.value = -config.tilt / 2;
+    const tiltHigh = context.createBiquadFilter();
+    tiltHigh.type = 'highshelf';
+    tiltHigh.frequency.value = TILT_PIVOT;
+    tiltHigh.gain.value = config.tilt / 2;
+    tiltLow.connect(tiltHigh);
+    this.input = tiltLow;
+
+    if (config.cutoff) {
+      const lowpass = context.createBiquadFilter();
+      lowpass.type = 'lowpass';
+      lowpass.frequency.value = config.cutoff;
+      lowpass.connect(tiltLow);
+      this.input = lowpass;
+    }
+
+    this.gainNode = context.createGain();
+    this.gainNode.gain.value = initialGain;
+    this.toneShaper = new ToneShaper(context, tone);
+    tiltHigh.connect(this.toneShaper.input);
+    this.toneShaper.connect(this.gainNode);
+    this.modulationNode = context.createGain();
+    this.gainNode.connect(this.modulationNode);
+  }
+
+  connect(destination: AudioNode) {
+    this.modulationNode.connect(destination);
+  }
+
+  disconnect() {
+    this.modulationNode.disconnect();
+  }
+
+  get gain() {
+    return this.gainNode.gain;
+  }
+
+  setTone(settings: ToneSettings) {
+    this.toneShaper.update(settings);
+  }
+
+  get modulation() {
+    return this.modulationNode.gain;
+  }
+
+  private playFrom(time: number): AudioBufferSourceNode {
+    const source = this.context.createBufferSource();
+    source.buffer = this.buffer;
+    source.loop = true;
+    source.connect(this.input);
+    // Start somewhere random so two layers of the same colour never line up
+    source.start(time, Math.random() * this.buffer.duration);
+    return source;
+  }
+
+  start() {
+    if (this.source) return;
+    this.source = this.playFrom(this.context.currentTime + 0.1);
+  }
+
+  // Plays the loop across [startTime, endTime). Used for offline rendering.
+  scheduleRange(startTime: number, endTime: number) {
+    this.playFrom(startTime).stop(endTime);
+  }
+
+  stop() {
+    if (!this.source) return;
+    this.source.stop();
+    this.source.disconnect();
+    this.source = null;
+  }
+}
@@ -0,0 +1,94 @@
+import { SpatialConfig, SpatialMotion, Vector3 } from '../types';
+
+// --- HRTF Spatial Panner ---
+// Places a source in 3D space around the listener using an HRTF panner.
+// Motion is driven by slow oscillators patched straight into the panner's
+// position params, so it runs on the audio clock and never touches React.
+const REF_DISTANCE = 2; // Sources closer than this are not attenuated
+const ROLLOFF_FACTOR = 0.5;
+
+export class SpatialPanner {
+  private context: BaseAudioContext;
+  private panner: PannerNode;
+  private modulators: OscillatorNode[] = [];
+
+  constructor(context: BaseAudioContext, config: SpatialConfig) {
+    this.context = context;
+    this.panner = context.createPanner();
+    this.panner.panningModel = 'HRTF';
+    this.panner.distanceModel = 'inverse';
+    this.panner.refDistance = REF_DISTANCE;
+    this.panner.rolloffFactor = ROLLOFF_FACTOR;
+
+    this.panner.positionX.value = config.position.x;
+    this.panner.positionY.value = config.position.y;
+    this.panner.positionZ.value = config.position.z;
+
+    if (config.motion) this.applyMotion(config.motion);
+  }
+
+  // Moves the point the source sits (or moves) around; motion carries on from there
+  setPosition(position: Vector3, glideTime = 0.05) {
+    const now = this.context.currentTime;
+    this.panner.positionX.setTargetAtTime(position.x, now, glideTime);
+    this.panner.positionY.setTargetAtTime(position.y, now, glideTime);
+    this.panner.positionZ.setTargetAtTime(position.z, now, glideTime);
+  }
+
+  get input(): AudioNode {
+    return this.panner;
+  }
+
+  connect(destination: AudioNode) {
+    this.panner.connect(destination);
+  }
+
+  disconnect() {
+    this.panner.disconnect();
+  }
+
+  dispose() {
+    this.modulators.forEach(osc => {
+      osc.stop();
+      osc.disconnect();
+    });
+    this.modulators = [];
+    this.disconnect();
+  }
+
+  private applyMotion(motion: SpatialMotion) {
+    const frequency = 1 / motion.period;
+    switch (motion.type) {
+      case 'orbit':
+        // A full circle in the horizontal plane: x = r·cos, z = r·sin
+        this.modulate(this.panner.positionX, frequency, motion.radius, 'cosine');
+        this.modulate(this.panner.positionZ, frequency, motion.radius, 'sine');
+        break;
+      case 'drift':
+        // Unrelated rates on each axis so the path never quite repeats
+        this.modulate(this.panner.positionX, frequency, motion.range, 'sine');
+        this.modulate(this.panner.positionZ, frequency / 1.618, motion.range, 'cosine');
+        this.modulate(this.panner.positionY, frequency / 2.3, motion.range * 0.3, 'sine');
+        break;
+      case 'sway':
+        this.modulate(this.panner.positionX, frequency, motion.width, 'sine');
+        break;
+    }
+  }
+
+  private modulate(param: AudioParam, frequency: number, depth: number, shape: 'sine' | 'cosine') {
+    const osc = this.context.createOscillator();
+    if (shape === 'cosine') {
+      osc.setPeriodicWave(this.context.createPeriodicWave(new Float32Array([0, 1]), new Float32Array([0, 0])));
+    } else {
+      osc.type = 'sine';
+    }
+    osc.frequency.value = frequency;
+
+    const depthNode = this.context.createGain();
+    depthNode.gain.value = depth;
+    osc.connect(depthNode).connect(param);
+    osc.start();
+    this.modulators.push(osc);
+  }
+}
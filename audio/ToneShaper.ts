@@ -0,0 +1,65 @@
+import { ToneSettings } from '../types';
+
+const LOW_SHELF_FREQUENCY = 250;
+const MID_PEAK_FREQUENCY = 1000;
+const HIGH_SHELF_FREQUENCY = 4000;
+
+// --- Tone Shaper ---
+// A filter followed by a 3-band EQ: filter -> low shelf -> mid peak -> high shelf.
+// With the filter off it becomes an allpass, so the chain never has to be rewired.
+export class ToneShaper {
+  private context: BaseAudioContext;
+  private filter: BiquadFilterNode;
+  private low: BiquadFilterNode;
+  private mid: BiquadFilterNode;
+  private high: BiquadFilterNode;
+
+  constructor(context: BaseAudioContext, settings: ToneSettings) {
+    this.context = context;
+    this.filter = context.createBiquadFilter();
+    this.low = context.createBiquadFilter();
+    this.low.type = 'lowshelf';
+    this.low.frequency.value = LOW_SHELF_FREQUENCY;
+    this.mid = context.createBiquadFilter();
+    this.mid.type = 'peaking';
+    this.mid.frequency.value = MID_PEAK_FREQUENCY;
+    this.mid.Q.value = 0.8;
+    this.high = context.createBiquadFilter();
+    this.high.type = 'highshelf';
+    this.high.frequency.value = HIGH_SHELF_FREQUENCY;
+
+    this.filter.connect(this.low);
+    this.low.connect(this.mid);
+    this.mid.connect(this.high);
+    this.update(settings, 0);
+  }
+
+  get input(): AudioNode {
+    return this.filter;
+  }
+
+  connect(destination: AudioNode) {
+    this.high.connect(destination);
+  }
+
+  disconnect() {
+    this.high.disconnect();
+  }
+
+  // Glides to new settings; only switching the filter type is instant
+  update(settings: ToneSettings, rampTime = 0.1) {
+    const type = settings.filter === 'none' ? 'allpass' : settings.filter;
+    if (this.filter.type !== type) this.filter.type = type;
+
+    const endTime = this.context.currentTime + rampTime;
+    const glide = (param: AudioParam, value: number) => {
+      param.cancelScheduledValues(this.context.currentTime);
+      param.setValueAtTime(param.value, this.context.currentTime);
+      param.linearRampToValueAtTime(value, endTime);
+    };
+    glide(this.filter.frequency, settings.filter === 'none' ? 20000 : settings.cutoff);
+    glide(this.low.gain, settings.low);
+    glide(this.mid.gain, settings.mid);
+    glide(this.high.gain, settings.high);
+  }
+}
@@ -0,0 +1,167 @@
+import { Automation, AutomationCurve, AutomationKeyframe } from '../types';
+
+export const THEME_LANE_ID = 'theme';
+
+const EXPONENTIAL_FLOOR = 0.001; // -60dB; exponential segments can't start or end at zero
+const POINTS_PER_SECOND = 2; // Resolution of curved segments, approximated by short linear ramps
+const MAX_POINTS_PER_SEGMENT = 240;
+
+// Wake the loop scheduler this early, capped so short loops still get scheduled in time.
+// Generous, because timers in background tabs may only fire once a minute.
+const MAX_SCHEDULE_AHEAD = 70; // seconds
+const SUSPENDED_RECHECK = 1; // seconds between checks while the clock stands still
+
+// Position 0..1 along a segment, mapped through its curve
+const shapeSegment = (curve: AutomationCurve, from: number, to: number, progress: number): number => {
+  if (progress >= 1) return to;
+  switch (curve) {
+    case 'step':
+      return from;
+    case 'smooth':
+      return from + (to - from) * (1 - Math.cos(Math.PI * progress)) / 2;
+    case 'exponential': {
+      const start = Math.max(from, EXPONENTIAL_FLOOR);
+      const end = Math.max(to, EXPONENTIAL_FLOOR);
+      return start * Math.pow(end / start, progress);
+    }
+    default:
+      return from + (to - from) * progress;
+  }
+};
+
+export const sortKeyframes = (keyframes: AutomationKeyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+// The lane's value at `time`. Before the first keyframe the lane holds `initialValue`,
+// gliding into that keyframe with its curve (or holding its value if it sits at 0).
+export const valueAt = (keyframes: AutomationKeyframe[], time: number, initialValue: number): number => {
+  let previous = { time: 0, value: initialValue };
+  for (const keyframe of sortKeyframes(keyframes)) {
+    if (time < keyframe.time) {
+      const progress = (time - previous.time) / (keyframe.time - previous.time);
+      return shapeSegment(keyframe.curve, previous.value, keyframe.value, progress);
+    }
+    previous = keyframe;
+  }
+  return previous.value;
+};
+
+// Writes one pass of a lane onto `param`, starting at context time `startTime`.
+// Keyframes past `length` are left out, so a looping lane never overlaps its next pass.
+const scheduleLane = (
+  param: AudioParam,
+  keyframes: AutomationKeyframe[],
+  startTime: number,
+  length: number,
+  initialValue: number
+) => {
+  let previous = { time: 0, value: initialValue };
+  param.setValueAtTime(initialValue, startTime);
+
+  sortKeyframes(keyframes).filter(k => k.time <= length).forEach(keyframe => {
+    const segmentStart = startTime + previous.time;
+    const segmentEnd = startTime + keyframe.time;
+    const duration = keyframe.time - previous.time;
+
+    if (keyframe.curve === 'step' || duration <= 0) {
+      param.setValueAtTime(keyframe.value, segmentEnd);
+    } else if (keyframe.curve === 'linear') {
+      param.linearRampToValueAtTime(keyframe.value, segmentEnd);
+    } else {
+      const pointCount = Math.max(2, Math.min(MAX_POINTS_PER_SEGMENT, Math.ceil(duration * POINTS_PER_SECOND)));
+      for (let i = 1; i <= pointCount; i++) {
+        const progress = i / pointCount;
+        const value = shapeSegment(keyframe.curve, previous.value, keyframe.value, progress);
+        param.linearRampToValueAtTime(value, segmentStart + duration * progress);
+      }
+    }
+    previous = keyframe;
+  });
+};
+
+// --- Automation Player ---
+// Plays a timeline against the context clock. Each pass is written onto the gain
+// AudioParams up front; a looping timeline queues its next pass well before the
+// current one ends, so playback never depends on timers firing on time.
+export class AutomationPlayer {
+  private context: BaseAudioContext;
+  private automation: Automation;
+  private params = new Map<string, AudioParam>();
+  private initialValues = new Map<string, number>();
+  private originTime = 0;
+  private passStartTime = 0;
+  private timerId: number | null = null;
+
+  // `resolveParam` maps a lane id to the gain it drives; lanes without one are skipped
+  constructor(context: BaseAudioContext, automation: Automation, resolveParam: (laneId: string) => AudioParam | undefined) {
+    this.context = context;
+    this.automation = automation;
+    Object.entries(automation.lanes).forEach(([laneId, keyframes]) => {
+      const param = resolveParam(laneId);
+      if (!param || keyframes.length === 0) return;
+      this.params.set(laneId, param);
+      // Lanes without a keyframe at 0 start from wherever the mix is now
+      const first = sortKeyframes(keyframes)[0];
+      this.initialValues.set(laneId, first.time === 0 ? first.value : param.value);
+    });
+  }
+
+  // Seconds into the timeline, wrapped for looping timelines
+  get position() {
+    const { length, loop } = this.automation;
+    const elapsed = Math.max(0, this.context.currentTime - this.originTime);
+    return loop && length > 0 ? elapsed % length : Math.min(elapsed, length);
+  }
+
+  get isFinished() {
+    return !this.automation.loop && this.context.currentTime - this.originTime >= this.automation.length;
+  }
+
+  start() {
+    const now = this.context.currentTime;
+    this.params.forEach(param => {
+      param.cancelScheduledValues(now);
+      param.setValueAtTime(param.value, now);
+    });
+    this.originTime = now + 0.05;
+    this.passStartTime = this.originTime;
+    this.schedulePass();
+  }
+
+  // Freezes every lane at its current value
+  stop() {
+    if (this.timerId !== null) {
+      window.clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    const now = this.context.currentTime;
+    this.params.forEach(param => {
+      const value = param.value;
+      param.cancelScheduledValues(now);
+      param.setValueAtTime(value, now);
+    });
+  }
+
+  private schedulePass = () => {
+    const { lanes, length, loop } = this.automation;
+    this.params.forEach((param, laneId) => {
+      scheduleLane(param, lanes[laneId], this.passStartTime, length, this.initialValues.get(laneId) ?? 0);
+    });
+    if (!loop || length <= 0) return;
+
+    this.passStartTime += length;
+    this.waitForNextPass();
+  };
+
+  // The audio clock stands still while the context is suspended (paused, or the
+  // sleep timer), so a timer that fires early just waits again instead of
+  // scheduling passes ahead of a clock that isn't moving
+  private waitForNextPass = (minWait = 0) => {
+    const scheduleAhead = Math.min(MAX_SCHEDULE_AHEAD, this.automation.length / 2);
+    const untilDue = this.passStartTime - scheduleAhead - this.context.currentTime;
+    this.timerId = window.setTimeout(() => {
+      this.timerId = null;
+      if (this.context.currentTime < this.passStartTime - scheduleAhead) this.waitForNextPass(SUSPENDED_RECHECK);
+      else this.schedulePass();
+    }, Math.max(minWait, untilDue) * 1000);
+  };
+}
@@ -0,0 +1,34 @@
+// --- Chime Cue ---
+// A soft two-note bell made from a few decaying sine partials. Used to mark
+// focus-session phase changes without needing an audio file.
+const PARTIALS = [
+  { ratio: 1, gain: 1 },
+  { ratio: 2.76, gain: 0.35 }, // Inharmonic, like a small bell
+  { ratio: 5.4, gain: 0.12 },
+];
+const NOTES = [784, 1047]; // G5 then C6
+const NOTE_GAP = 0.35; // s
+const DECAY = 2.5; // s until the note has died away
+const LEVEL = 0.12;
+
+export const playChime = (context: BaseAudioContext, destination: AudioNode, startTime = context.currentTime) => {
+  NOTES.forEach((frequency, noteIndex) => {
+    const time = startTime + noteIndex * NOTE_GAP;
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, time);
+    envelope.gain.linearRampToValueAtTime(LEVEL, time + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, time + DECAY);
+    envelope.connect(destination);
+
+    PARTIALS.forEach(({ ratio, gain }) => {
+      const osc = context.createOscillator();
+      osc.frequency.value = frequency * ratio;
+      const partialGain = context.createGain();
+      partialGain.gain.value = gain;
+      osc.connect(partialGain).connect(envelope);
+      osc.start(time);
+      osc.stop(time + DECAY);
+      osc.onended = () => envelope.disconnect();
+    });
+  });
+};
@@ -0,0 +1,67 @@
+import { SpatialConfig, EventLayerConfig, NoiseLayerConfig, BinauralSettings, ToneSettings, EnvironmentSetting } from '../types';
+import { LoopingPlayer } from './LoopingPlayer';
+import { EventPlayer, LoadedClip } from './EventPlayer';
+import { NoisePlayer } from './NoisePlayer';
+import { BinauralPlayer } from './BinauralPlayer';
+import { SpatialPanner } from './SpatialPanner';
+import { ReverbBus } from './reverb';
+
+export interface MixRenderSource {
+  buffer?: AudioBuffer; // Looped, or...
+  events?: { clips: LoadedClip[]; config: EventLayerConfig }; // ...fired at random, or...
+  noise?: NoiseLayerConfig; // ...generated on the spot, or...
+  binaural?: BinauralSettings; // ...tones, which skip the panner
+  volume: number;
+  spatial?: SpatialConfig;
+  tone?: ToneSettings;
+}
+
+export interface MixRenderOptions {
+  duration: number; // seconds
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+  sampleRate: number;
+  environment?: EnvironmentSetting; // Dry when omitted
+}
+
+// --- Offline Mix Renderer ---
+// Rebuilds the live chain (looping, event, noise or binaural player with its tone shaping -> spatial panner -> master -> reverb) inside an
+// OfflineAudioContext, so a render sounds like what's playing in the browser:
+// same gains, same loop overlap and the same panning, plus a fade in and out.
+export const renderMix = (sources: MixRenderSource[], options: MixRenderOptions): Promise<AudioBuffer> => {
+  const { duration, sampleRate } = options;
+  const context = new OfflineAudioContext(2, Math.ceil(duration * sampleRate), sampleRate);
+
+  const fadeIn = Math.min(options.fadeIn, duration / 2);
+  const fadeOut = Math.min(options.fadeOut, duration / 2);
+  const masterGain = context.createGain();
+  masterGain.gain.setValueAtTime(fadeIn > 0 ? 0 : 1, 0);
+  if (fadeIn > 0) masterGain.gain.linearRampToValueAtTime(1, fadeIn);
+  if (fadeOut > 0) {
+    masterGain.gain.setValueAtTime(1, duration - fadeOut);
+    masterGain.gain.linearRampToValueAtTime(0, duration);
+  }
+  const reverbBus = new ReverbBus(context, options.environment);
+  masterGain.connect(reverbBus.input);
+  reverbBus.connect(context.destination);
+
+  sources.forEach(source => {
+    const player = source.binaural
+      ? new BinauralPlayer(context, source.binaural, source.volume, source.tone)
+      : source.noise
+        ? new NoisePlayer(context, source.noise, source.volume, source.tone)
+        : source.events
+          ? new EventPlayer(context, source.events.clips, source.events.config, source.volume, source.tone)
+          : new LoopingPlayer(context, source.buffer!, source.volume, source.tone);
+    if (source.spatial) {
+      const panner = new SpatialPanner(context, source.spatial);
+      player.connect(panner.input);
+      panner.connect(masterGain);
+    } else {
+      player.connect(masterGain);
+    }
+    player.scheduleRange(0, duration);
+  });
+
+  return context.startRendering();
+};
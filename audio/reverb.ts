@@ -0,0 +1,134 @@
+import { EnvironmentId, EnvironmentSetting } from '../types';
+
+interface EnvironmentPreset {
+  id: EnvironmentId;
+  name: string;
+  icon: string;
+  decay: number; // seconds until the tail is 60dB down; 0 for no reverb
+  preDelay: number; // seconds before the tail starts
+  brightness: number; // Hz; the tail's damping starts here...
+  damping: number; // ...and closes down to here by the end
+  reflections: number[]; // seconds; early echoes off nearby surfaces
+}
+
+export const ENVIRONMENTS: EnvironmentPreset[] = [
+  { id: 'dry', name: 'Dry', icon: 'fa-solid fa-ban', decay: 0, preDelay: 0, brightness: 0, damping: 0, reflections: [] },
+  { id: 'small-room', name: 'Small room', icon: 'fa-solid fa-couch', decay: 0.6, preDelay: 0.005, brightness: 8000, damping: 3000, reflections: [0.007, 0.011, 0.017, 0.023] },
+  { id: 'forest', name: 'Forest clearing', icon: 'fa-solid fa-tree', decay: 1.4, preDelay: 0.02, brightness: 6000, damping: 2000, reflections: [0.031, 0.054, 0.093] },
+  { id: 'cave', name: 'Cave', icon: 'fa-solid fa-mountain', decay: 3.5, preDelay: 0.03, brightness: 5000, damping: 1200, reflections: [0.041, 0.067, 0.109, 0.157] },
+  { id: 'cathedral', name: 'Cathedral', icon: 'fa-solid fa-place-of-worship', decay: 6, preDelay: 0.05, brightness: 7000, damping: 2500, reflections: [0.052, 0.083, 0.121] },
+  { id: 'deep-space', name: 'Deep space', icon: 'fa-solid fa-meteor', decay: 12, preDelay: 0.1, brightness: 4000, damping: 800, reflections: [] },
+];
+
+export const DRY_ENVIRONMENT: EnvironmentSetting = { id: 'dry', mix: 0.3 };
+
+// Builds a stereo impulse response from decaying noise: independent noise per
+// channel for width, a one-pole low-pass that closes as the tail fades (air and
+// walls soak up highs first), and a few early reflections up front.
+export const createImpulseResponse = (context: BaseAudioContext, id: EnvironmentId): AudioBuffer | null => {
+  const preset = ENVIRONMENTS.find(e => e.id === id);
+  if (!preset || preset.decay <= 0) return null;
+
+  const sampleRate = context.sampleRate;
+  const length = Math.ceil((preset.preDelay + preset.decay * 1.1) * sampleRate);
+  const impulse = context.createBuffer(2, length, sampleRate);
+  const preDelaySamples = Math.floor(preset.preDelay * sampleRate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const data = impulse.getChannelData(channel);
+    let filtered = 0;
+    for (let i = preDelaySamples; i < length; i++) {
+      const t = (i - preDelaySamples) / sampleRate;
+      const progress = Math.min(1, t / preset.decay);
+      const cutoff = preset.brightness * Math.pow(preset.damping / preset.brightness, progress);
+      const coefficient = Math.exp((-2 * Math.PI * cutoff) / sampleRate);
+      filtered = (1 - coefficient) * (Math.random() * 2 - 1) + coefficient * filtered;
+      data[i] = filtered * Math.pow(10, (-3 * t) / preset.decay); // -60dB at `decay`
+    }
+    preset.reflections.forEach((time, index) => {
+      // Each side hears the echo a touch earlier or later
+      const offset = Math.floor((time + (channel === 0 ? -1 : 1) * 0.0007 * (index + 1)) * sampleRate);
+      if (offset > 0 && offset < length) data[offset] += 0.5 / (index + 1);
+    });
+  }
+  return impulse;
+};
+
+// --- Reverb Bus ---
+// A convolver send beside the dry path: input -> dry -> output, and
+// input -> convolver -> wet -> output. The wet/dry mix is an equal-power
+// crossfade, and switching rooms crossfades between two convolvers so the old
+// tail rings out instead of being cut.
+export class ReverbBus {
+  private context: BaseAudioContext;
+  private inputNode: GainNode;
+  private dryGain: GainNode;
+  private outputNode: GainNode;
+  private wet: { convolver: ConvolverNode; gain: GainNode } | null = null;
+  private impulses = new Map<EnvironmentId, AudioBuffer | null>();
+
+  constructor(context: BaseAudioContext, setting: EnvironmentSetting = DRY_ENVIRONMENT) {
+    this.context = context;
+    this.inputNode = context.createGain();
+    this.dryGain = context.createGain();
+    this.outputNode = context.createGain();
+    this.inputNode.connect(this.dryGain);
+    this.dryGain.connect(this.outputNode);
+    this.setEnvironment(setting, 0);
+  }
+
+  get input(): AudioNode {
+    return this.inputNode;
+  }
+
+  connect(destination: AudioNode) {
+    this.outputNode.connect(destination);
+  }
+
+  private getImpulse(id: EnvironmentId) {
+    if (!this.impulses.has(id)) this.impulses.set(id, createImpulseResponse(this.context, id));
+    return this.impulses.get(id) ?? null;
+  }
+
+  setEnvironment(setting: EnvironmentSetting, rampTime = 1.5) {
+    const now = this.context.currentTime;
+    const impulse = this.getImpulse(setting.id);
+    const mix = impulse ? Math.max(0, Math.min(1, setting.mix)) : 0;
+    const glide = (param: AudioParam, value: number) => {
+      param.cancelScheduledValues(now);
+      param.setValueAtTime(param.value, now);
+      param.linearRampToValueAtTime(value, now + rampTime);
+    };
+
+    glide(this.dryGain.gain, Math.cos((mix * Math.PI) / 2));
+    const wetLevel = Math.sin((mix * Math.PI) / 2);
+
+    // Same room: just move the balance
+    if (this.wet && this.wet.convolver.buffer === impulse) {
+      glide(this.wet.gain.gain, wetLevel);
+      return;
+    }
+
+    const previous = this.wet;
+    if (previous) {
+      glide(previous.gain.gain, 0);
+      window.setTimeout(() => {
+        this.inputNode.disconnect(previous.convolver);
+        previous.convolver.disconnect();
+        previous.gain.disconnect();
+      }, (rampTime + 0.1) * 1000);
+    }
+    this.wet = null;
+    if (!impulse) return;
+
+    const convolver = this.context.createConvolver();
+    convolver.buffer = impulse;
+    const gain = this.context.createGain();
+    gain.gain.value = 0;
+    this.inputNode.connect(convolver);
+    convolver.connect(gain);
+    gain.connect(this.outputNode);
+    glide(gain.gain, wetLevel);
+    this.wet = { convolver, gain };
+  }
+}
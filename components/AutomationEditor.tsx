@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { Automation, AutomationCurve, AutomationKeyframe } from '../types';
+import { valueAt, sortKeyframes } from '../audio/automation';
+
+export interface AutomationLane {
+	id: string; // layer id, or 'theme'
+	name: string;
+	icon: string;
+	value: number; // the slider value, where the lane starts unless it has a keyframe at 0
+}
+
+interface AutomationEditorProps {
+	automation: Automation;
+	lanes: AutomationLane[];
+	isPlaying: boolean;
+	getPosition: () => number | null;
+	onChange: (automation: Automation) => void;
+	onPlay: () => void;
+	onStop: () => void;
+}
+
+const CURVES: { id: AutomationCurve; label: string }[] = [
+	{ id: 'smooth', label: 'Smooth' },
+	{ id: 'linear', label: 'Linear' },
+	{ id: 'exponential', label: 'Exponential' },
+	{ id: 'step', label: 'Step' },
+];
+
+const MAX_LENGTH_MINUTES = 240;
+const SPARKLINE_POINTS = 120;
+
+const formatMinutes = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const Sparkline: React.FC<{ keyframes: AutomationKeyframe[]; initialValue: number; length: number; position: number | null }> = ({ keyframes, initialValue, length, position }) => {
+	const points = Array.from({ length: SPARKLINE_POINTS + 1 }, (_, i) => {
+		const t = (i / SPARKLINE_POINTS) * length;
+		return `${(i / SPARKLINE_POINTS) * 100},${(1 - valueAt(keyframes, t, initialValue)) * 30 + 1}`;
+	}).join(' ');
+
+	return (
+		<svg viewBox="0 0 100 32" preserveAspectRatio="none" className="w-full h-8">
+			<polyline points={points} fill="none" stroke="rgba(255,255,255,0.8)" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+			{keyframes.filter(k => k.time <= length).map((k, i) => (
+				<circle key={i} cx={(k.time / length) * 100} cy={(1 - k.value) * 30 + 1} r="1.5" fill="white" />
+			))}
+			{position !== null && (
+				<line x1={(position / length) * 100} x2={(position / length) * 100} y1="0" y2="32" stroke="rgba(255,255,255,0.5)" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+			)}
+		</svg>
+	);
+};
+
+const AutomationEditor: React.FC<AutomationEditorProps> = ({ automation, lanes, isPlaying, getPosition, onChange, onPlay, onStop }) => {
+	const [position, setPosition] = useState<number | null>(null);
+
+	useEffect(() => {
+		if (!isPlaying) {
+			setPosition(null);
+			return;
+		}
+		const intervalId = window.setInterval(() => setPosition(getPosition()), 250);
+		return () => window.clearInterval(intervalId);
+	}, [isPlaying, getPosition]);
+
+	const updateLane = (laneId: string, keyframes: AutomationKeyframe[]) => {
+		const lanes = { ...automation.lanes, [laneId]: keyframes };
+		if (keyframes.length === 0) delete lanes[laneId];
+		onChange({ ...automation, lanes });
+	};
+
+	const addKeyframe = (lane: AutomationLane) => {
+		const keyframes = sortKeyframes(automation.lanes[lane.id] ?? []);
+		const last = keyframes[keyframes.length - 1];
+		const time = last ? Math.min(automation.length, last.time + 300) : 0;
+		updateLane(lane.id, [...keyframes, { time, value: last ? last.value : lane.value, curve: 'smooth' }]);
+	};
+
+	const editKeyframe = (laneId: string, index: number, patch: Partial<AutomationKeyframe>) => {
+		const keyframes = (automation.lanes[laneId] ?? []).map((k, i) => (i === index ? { ...k, ...patch } : k));
+		updateLane(laneId, keyframes);
+	};
+
+	const removeKeyframe = (laneId: string, index: number) => {
+		updateLane(laneId, (automation.lanes[laneId] ?? []).filter((_, i) => i !== index));
+	};
+
+	const hasKeyframes = Object.keys(automation.lanes).some(laneId => automation.lanes[laneId].length > 0);
+
+	return (
+		<div className="border-t border-white/20 mt-6 pt-6 animate-fade-in-slow">
+			<style>{`.animate-fade-in-slow { animation: fade-in 0.4s ease-out forwards; } @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }`}</style>
+			<div className="flex flex-wrap justify-between items-center mb-4 gap-3">
+				<h3 className="text-xl font-bold text-white/90">Automation</h3>
+				<div className="flex flex-wrap items-center gap-2 text-sm">
+					<label className="flex items-center gap-2 text-white/70">
+						Length
+						<input
+							type="number"
+							min="1"
+							max={MAX_LENGTH_MINUTES}
+							value={Math.round(automation.length / 60)}
+							onChange={(e) => onChange({ ...automation, length: Math.max(1, Math.min(MAX_LENGTH_MINUTES, parseInt(e.target.value, 10) || 1)) * 60 })}
+							className="w-16 px-2 py-1 text-right bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white focus:outline-none focus:ring-white/50"
+						/>
+						min
+					</label>
+					<select
+						value={automation.loop ? 'loop' : 'once'}
+						onChange={(e) => onChange({ ...automation, loop: e.target.value === 'loop' })}
+						className="px-2 py-1 bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white"
+						aria-label="Repeat"
+					>
+						<option value="once">Play once</option>
+						<option value="loop">Loop</option>
+					</select>
+					<button
+						onClick={isPlaying ? onStop : onPlay}
+						disabled={!isPlaying && !hasKeyframes}
+						className="shine-hover px-4 py-2 font-semibold bg-white/5 backdrop-blur-md text-white rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30 disabled:opacity-40"
+					>
+						<i className={`fa-solid ${isPlaying ? 'fa-stop' : 'fa-play'} mr-2`} />
+						{isPlaying ? `Stop${position !== null ? ` · ${formatMinutes(position)}` : ''}` : 'Play'}
+					</button>
+				</div>
+			</div>
+			<p className="text-xs text-white/50 mb-3">
+				Keyframe times are in minutes from the start. Moving a slider during playback takes over that sound until the timeline repeats; changes apply the next time you press Play.
+			</p>
+			<div className="p-2 bg-black/20 rounded-xl max-h-80 overflow-y-auto space-y-2">
+				{lanes.map(lane => {
+					const keyframes = automation.lanes[lane.id] ?? [];
+					return (
+						<div key={lane.id} className="p-2 rounded-lg bg-white/5">
+							<div className="flex items-center gap-3">
+								<i className={`${lane.icon} w-5 text-center text-white/80`} />
+								<span className="w-24 text-sm font-semibold truncate">{lane.name}</span>
+								<div className="flex-grow min-w-0">
+									<Sparkline keyframes={keyframes} initialValue={lane.value} length={automation.length} position={position} />
+								</div>
+								<button
+									onClick={() => addKeyframe(lane)}
+									className="w-8 h-8 flex items-center justify-center rounded-full text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+									aria-label={`Add keyframe to ${lane.name}`}
+									title="Add keyframe"
+								>
+									<i className="fa-solid fa-plus text-sm" />
+								</button>
+							</div>
+							{keyframes.length > 0 && (
+								<div className="mt-2 pl-8 space-y-1">
+									{keyframes.map((keyframe, index) => (
+										<div key={index} className={`flex items-center gap-2 text-xs ${keyframe.time > automation.length ? 'opacity-40' : ''}`}>
+											<input
+												type="number"
+												min="0"
+												step="0.5"
+												value={+(keyframe.time / 60).toFixed(2)}
+												onChange={(e) => editKeyframe(lane.id, index, { time: Math.max(0, parseFloat(e.target.value) || 0) * 60 })}
+												className="w-16 px-2 py-1 text-right bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 focus:outline-none"
+												aria-label="Time in minutes"
+											/>
+											<span className="text-white/50">min →</span>
+											<input
+												type="number"
+												min="0"
+												max="100"
+												value={Math.round(keyframe.value * 100)}
+												onChange={(e) => editKeyframe(lane.id, index, { value: Math.max(0, Math.min(100, parseInt(e.target.value, 10) || 0)) / 100 })}
+												className="w-16 px-2 py-1 text-right bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 focus:outline-none"
+												aria-label="Volume in percent"
+											/>
+											<span className="text-white/50">%</span>
+											<select
+												value={keyframe.curve}
+												onChange={(e) => editKeyframe(lane.id, index, { curve: e.target.value as AutomationCurve })}
+												className="px-2 py-1 bg-black/30 rounded-lg ring-1 ring-inset ring-white/20"
+												aria-label="Curve into this keyframe"
+											>
+												{CURVES.map(curve => <option key={curve.id} value={curve.id}>{curve.label}</option>)}
+											</select>
+											<button
+												onClick={() => removeKeyframe(lane.id, index)}
+												className="ml-auto w-6 h-6 flex items-center justify-center rounded-full text-white/50 hover:text-white hover:bg-white/10"
+												aria-label="Remove keyframe"
+											>
+												<i className="fa-solid fa-xmark" />
+											</button>
+										</div>
+									))}
+								</div>
+							)}
+						</div>
+					);
+				})}
+			</div>
+		</div>
+	);
+};
+
+export default AutomationEditor;
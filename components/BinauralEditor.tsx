@@ -0,0 +1,147 @@
+import React from 'react';
+import { BinauralSettings } from '../types';
+import { BINAURAL_PRESETS } from '../constants';
+
+interface BinauralEditorProps {
+	layerName: string;
+	settings: BinauralSettings;
+	onChange: (settings: BinauralSettings) => void;
+	onClose: () => void;
+}
+
+const MIN_CARRIER = 60;
+const MAX_CARRIER = 500;
+const MIN_BEAT = 0.5;
+const MAX_BEAT = 40;
+const DEFAULT_GLIDE = { beat: 4, minutes: 30 };
+
+const formatBeat = (hz: number) => `${hz % 1 === 0 ? hz : hz.toFixed(1)}Hz`;
+
+const BinauralEditor: React.FC<BinauralEditorProps> = ({ layerName, settings, onChange, onClose }) => {
+	const update = (patch: Partial<BinauralSettings>) => onChange({ ...settings, ...patch });
+
+	const modes: { id: BinauralSettings['mode']; label: string; icon: string }[] = [
+		{ id: 'binaural', label: 'Binaural (headphones)', icon: 'fa-solid fa-headphones' },
+		{ id: 'isochronic', label: 'Isochronic (speakers)', icon: 'fa-solid fa-volume-high' },
+	];
+
+	return (
+		<div className="mt-6 p-4 bg-black/20 rounded-xl animate-fade-in-slow">
+			<style>{`.animate-fade-in-slow { animation: fade-in 0.4s ease-out forwards; } @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }`}</style>
+			<div className="flex justify-between items-center mb-3">
+				<h4 className="font-semibold text-white/90">{layerName} · Beats</h4>
+				<button
+					onClick={onClose}
+					className="w-7 h-7 flex items-center justify-center rounded-full text-white/60 hover:text-white hover:bg-white/10"
+					aria-label="Close beat controls"
+				>
+					<i className="fa-solid fa-xmark" />
+				</button>
+			</div>
+
+			<div className="flex flex-wrap gap-2 mb-3">
+				{modes.map(mode => (
+					<button
+						key={mode.id}
+						onClick={() => update({ mode: mode.id })}
+						className={`flex items-center gap-2 px-3 py-1 text-xs rounded-lg ring-1 ring-inset transition-colors ${settings.mode === mode.id ? 'bg-white/20 ring-white/40' : 'ring-white/20 hover:bg-white/10'}`}
+					>
+						<i className={mode.icon} />
+						{mode.label}
+					</button>
+				))}
+			</div>
+
+			<div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+				{BINAURAL_PRESETS.map(preset => {
+					const isActive = settings.carrier === preset.carrier && settings.beat === preset.beat;
+					return (
+						<button
+							key={preset.id}
+							onClick={() => update({ carrier: preset.carrier, beat: preset.beat })}
+							className={`px-3 py-2 text-left rounded-lg ring-1 ring-inset transition-colors ${isActive ? 'bg-white/20 ring-white/40' : 'ring-white/20 hover:bg-white/10'}`}
+						>
+							<span className="block text-sm font-semibold">{preset.name} · {formatBeat(preset.beat)}</span>
+							<span className="block text-xs text-white/60">{preset.description}</span>
+						</button>
+					);
+				})}
+			</div>
+
+			<div className="grid gap-3 md:grid-cols-2 text-sm">
+				<div className="space-y-2">
+					<label className="flex items-center gap-2 text-white/70">
+						<span className="w-14">Carrier</span>
+						<input
+							type="range"
+							min={MIN_CARRIER}
+							max={MAX_CARRIER}
+							step="1"
+							value={settings.carrier}
+							onChange={(e) => update({ carrier: parseFloat(e.target.value) })}
+							className="flex-grow accent-white"
+						/>
+						<span className="w-16 text-right tabular-nums text-xs">{settings.carrier}Hz</span>
+					</label>
+					<label className="flex items-center gap-2 text-white/70">
+						<span className="w-14">Beat</span>
+						<input
+							type="range"
+							min={MIN_BEAT}
+							max={MAX_BEAT}
+							step="0.5"
+							value={settings.beat}
+							onChange={(e) => update({ beat: parseFloat(e.target.value) })}
+							className="flex-grow accent-white"
+						/>
+						<span className="w-16 text-right tabular-nums text-xs">{formatBeat(settings.beat)}</span>
+					</label>
+				</div>
+				<div className="space-y-2">
+					<label className="flex items-center justify-between gap-2 text-white/70 cursor-pointer">
+						Glide over the session
+						<input
+							type="checkbox"
+							checked={!!settings.glide}
+							onChange={(e) => update({ glide: e.target.checked ? DEFAULT_GLIDE : null })}
+							className="w-4 h-4 accent-white"
+						/>
+					</label>
+					<label className={`flex items-center gap-2 text-white/70 ${settings.glide ? '' : 'opacity-40'}`}>
+						<span className="w-14">To</span>
+						<input
+							type="range"
+							min={MIN_BEAT}
+							max={MAX_BEAT}
+							step="0.5"
+							disabled={!settings.glide}
+							value={settings.glide?.beat ?? DEFAULT_GLIDE.beat}
+							onChange={(e) => update({ glide: { ...settings.glide!, beat: parseFloat(e.target.value) } })}
+							className="flex-grow accent-white"
+						/>
+						<span className="w-16 text-right tabular-nums text-xs">{formatBeat(settings.glide?.beat ?? DEFAULT_GLIDE.beat)}</span>
+					</label>
+					<label className={`flex items-center gap-2 text-white/70 ${settings.glide ? '' : 'opacity-40'}`}>
+						<span className="w-14">Over</span>
+						<input
+							type="range"
+							min="5"
+							max="120"
+							step="5"
+							disabled={!settings.glide}
+							value={settings.glide?.minutes ?? DEFAULT_GLIDE.minutes}
+							onChange={(e) => update({ glide: { ...settings.glide!, minutes: parseFloat(e.target.value) } })}
+							className="flex-grow accent-white"
+						/>
+						<span className="w-16 text-right tabular-nums text-xs">{settings.glide?.minutes ?? DEFAULT_GLIDE.minutes} min</span>
+					</label>
+				</div>
+			</div>
+			<p className="mt-3 text-xs text-white/50">
+				Binaural beats only work on headphones: each ear hears its own tone. Keep the volume low.
+			</p>
+		</div>
+	);
+};
+
+export default BinauralEditor;
@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { fuzzyScore } from '../utils/fuzzy';
+
+export interface Command {
+	id: string;
+	label: string;
+	icon?: string; // Font Awesome classes
+	run: () => void;
+}
+
+interface CommandPaletteProps {
+	isOpen: boolean;
+	commands: Command[];
+	getQueryCommands?: (query: string) => Command[]; // Commands built from what was typed, e.g. "set rain 40%"
+	onClose: () => void;
+}
+
+const MAX_RESULTS = 8;
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, commands, getQueryCommands, onClose }) => {
+	const [query, setQuery] = useState('');
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	useEffect(() => {
+		if (!isOpen) return;
+		setQuery('');
+		setSelectedIndex(0);
+		inputRef.current?.focus();
+	}, [isOpen]);
+
+	const results = useMemo(() => {
+		const queryCommands = getQueryCommands?.(query) ?? [];
+		const matches = commands
+			.map(command => ({ command, score: fuzzyScore(query, command.label) }))
+			.filter((match): match is { command: Command; score: number } => match.score !== null)
+			.sort((a, b) => b.score - a.score)
+			.map(match => match.command);
+		return [...queryCommands, ...matches].slice(0, MAX_RESULTS);
+	}, [query, commands, getQueryCommands]);
+
+	if (!isOpen) return null;
+
+	const run = (command: Command | undefined) => {
+		if (!command) return;
+		onClose();
+		command.run();
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent) => {
+		if (e.key === 'ArrowDown') {
+			e.preventDefault();
+			setSelectedIndex((selectedIndex + 1) % Math.max(1, results.length));
+		} else if (e.key === 'ArrowUp') {
+			e.preventDefault();
+			setSelectedIndex((selectedIndex - 1 + results.length) % Math.max(1, results.length));
+		} else if (e.key === 'Enter') {
+			e.preventDefault();
+			run(results[selectedIndex]);
+		} else if (e.key === 'Escape') {
+			e.preventDefault();
+			onClose();
+		}
+	};
+
+	return (
+		<div
+			className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-black/60 backdrop-blur-md"
+			onClick={onClose}
+			aria-modal="true"
+			role="dialog"
+			aria-label="Command palette"
+		>
+			<div
+				className="w-full max-w-lg mx-4 bg-gray-900/80 border border-white/20 rounded-2xl shadow-2xl text-white backdrop-blur-2xl overflow-hidden"
+				onClick={(e) => e.stopPropagation()}
+			>
+				<div className="flex items-center gap-3 px-4 border-b border-white/10">
+					<i className="fa-solid fa-magnifying-glass text-white/50" />
+					<input
+						ref={inputRef}
+						value={query}
+						onChange={(e) => { setQuery(e.target.value); setSelectedIndex(0); }}
+						onKeyDown={handleKeyDown}
+						placeholder='Try "add layer rain", "apply preset…" or "set thunder 40%"'
+						className="w-full py-4 bg-transparent text-sm focus:outline-none placeholder:text-white/40"
+						aria-label="Search commands"
+					/>
+				</div>
+				<ul className="max-h-80 overflow-y-auto py-2" role="listbox">
+					{results.map((command, index) => (
+						<li key={command.id} role="option" aria-selected={index === selectedIndex}>
+							<button
+								onClick={() => run(command)}
+								onMouseMove={() => setSelectedIndex(index)}
+								className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm transition-colors ${index === selectedIndex ? 'bg-white/15' : ''}`}
+							>
+								<i className={`${command.icon ?? 'fa-solid fa-angle-right'} w-5 text-center text-white/70`} />
+								{command.label}
+							</button>
+						</li>
+					))}
+					{results.length === 0 && (
+						<li className="px-4 py-3 text-sm text-white/50 italic">No matching commands.</li>
+					)}
+				</ul>
+			</div>
+		</div>
+	);
+};
+
+export default CommandPalette;
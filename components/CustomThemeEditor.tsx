@@ -1,26 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { Theme, SoundLayer } from '../types';
-
-const BACKGROUND_OPTIONS: { id: Theme['vantaEffect']; name: string; description: string }[] = [
-    { id: 'WAVES', name: 'Cosmic Waves', description: 'Dark, shimmering waves.' },
-    { id: 'CLOUDS', name: 'Dream Clouds', description: 'Gentle, colorful clouds.' },
-    { id: 'HALO', name: 'Aura Borealis', description: 'Minimalist glowing rings.' },
-    { id: 'FOG', name: 'Mystic Fog', description: 'Subtle, flowing mist.' },
-];
-
-const THEME_SUBTITLES: Record<string, string> = {
-	'dark-drone': 'Deep sci-fi ambience.',
-	'floating-dreaming': 'Soft, airy soundscape.',
-	'focus-meditation': 'Minimal, steady textures.'
-};
+import { Theme, SoundLayer, Backdrop, RegisteredTheme } from '../types';
+import { UploadDetails } from '../hooks/useUploads';
+import SoundUpload from './SoundUpload';
 
 interface CustomThemeEditorProps {
 	onClose: () => void;
 	onSave: (config: { baseThemeId: string | null; layers: string[], vantaEffect: Theme['vantaEffect'], volumes: Record<string, number> }) => void;
 	currentConfig: { baseThemeId: string | null; layers: string[]; vantaEffect: Theme['vantaEffect'] };
 	currentVolumes: Record<string, number>;
-	allBaseThemes: Theme[];
+	baseThemes: RegisteredTheme[];
+	backdrops: Backdrop[]; // The ones offered for custom mixes
 	allLayers: SoundLayer[];
+	onUpload?: (file: File, details: UploadDetails) => Promise<SoundLayer>; // Left out where uploads can't be stored
+	onDeleteUpload: (layerId: string) => void;
 }
 
 const CustomThemeEditor: React.FC<CustomThemeEditorProps> = ({
@@ -28,8 +20,11 @@ const CustomThemeEditor: React.FC<CustomThemeEditorProps> = ({
 	onSave,
 	currentConfig,
 	currentVolumes,
-	allBaseThemes,
-	allLayers
+	baseThemes,
+	backdrops,
+	allLayers,
+	onUpload,
+	onDeleteUpload
 }) => {
 	const [selectedBaseTheme, setSelectedBaseTheme] = useState<string | null>(currentConfig.baseThemeId);
 	const [selectedLayers, setSelectedLayers] = useState<string[]>(currentConfig.layers);
@@ -53,6 +48,18 @@ const CustomThemeEditor: React.FC<CustomThemeEditorProps> = ({
 			setSelectedVolumes(prev => ({ ...prev, [layerId]: prev[layerId] ?? 0.5 }));
 		}
 	};
+
+	// A new upload joins the selection straight away, if there's room
+	const handleUpload = async (file: File, details: UploadDetails) => {
+		const layer = await onUpload!(file, details);
+		if (selectedLayers.length < 7) handleLayerToggle(layer.id);
+	};
+
+	const handleDeleteUpload = (layer: SoundLayer) => {
+		if (!window.confirm(`Delete your sound "${layer.name}" from this browser?`)) return;
+		setSelectedLayers(prev => prev.filter(id => id !== layer.id));
+		onDeleteUpload(layer.id);
+	};
     
     const handleSave = () => {
         if(selectedBaseTheme) {
@@ -74,18 +81,13 @@ const CustomThemeEditor: React.FC<CustomThemeEditorProps> = ({
 
 	const handleSurpriseMe = () => {
 		// 1. Pick a random base theme
-		const randomTheme = allBaseThemes[Math.floor(Math.random() * allBaseThemes.length)];
+		const randomTheme = baseThemes[Math.floor(Math.random() * baseThemes.length)];
 		setSelectedBaseTheme(randomTheme.id);
 	
-		// 2. Define thematic sound palettes
-		const palettes: Record<string, string[]> = {
-			'dark-drone': ['planets', 'space_debris', 'nasa_chatter', 'thunder', 'whales'],
-			'floating-dreaming': ['rain', 'forest', 'wind_chimes', 'crickets', 'birds', 'ocean', 'bubbles'],
-			'focus-meditation': ['whales', 'bubbles', 'wind_chimes', 'ocean', 'rain']
-		};
+		// 2. Use the theme's sound palette, or any layer if it has none
+		const palette = randomTheme.palette.length > 0 ? randomTheme.palette : allLayers.map(l => l.id);
 	
 		// 3. Select 2-5 fitting layers from the palette
-		const palette = palettes[randomTheme.id] || allLayers.map(l => l.id);
 		const shuffledPalette = [...palette].sort(() => 0.5 - Math.random());
 		const layerCount = Math.floor(Math.random() * 4) + 2; // Generate between 2 and 5 layers
 		const newLayers = shuffledPalette.slice(0, layerCount);
@@ -99,7 +101,7 @@ const CustomThemeEditor: React.FC<CustomThemeEditorProps> = ({
 		setSelectedVolumes(newVolumes);
 	
 		// 5. Pick a random background
-		const randomBg = BACKGROUND_OPTIONS[Math.floor(Math.random() * BACKGROUND_OPTIONS.length)];
+		const randomBg = backdrops[Math.floor(Math.random() * backdrops.length)];
 		setSelectedVantaEffect(randomBg.id);
 	};
 
@@ -119,7 +121,7 @@ const CustomThemeEditor: React.FC<CustomThemeEditorProps> = ({
 				.animate-scale-in { animation: scale-in 0.3s ease-out forwards; }
 			`}</style>
 			<div
-				className="relative w-full max-w-2xl p-8 mx-4 bg-gray-900/70 border border-white/20 rounded-2xl shadow-2xl text-white animate-scale-in"
+				className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto p-8 mx-4 bg-gray-900/70 border border-white/20 rounded-2xl shadow-2xl text-white animate-scale-in"
 				onClick={(e) => e.stopPropagation()}
 			>
 				<button
@@ -140,14 +142,14 @@ const CustomThemeEditor: React.FC<CustomThemeEditorProps> = ({
 				<div className="mb-6">
 					<h3 className="text-xl font-semibold text-white/90 mb-3">1. Choose Music</h3>
 					<div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-						{allBaseThemes.map(theme => (
+						{baseThemes.map(theme => (
 							<button
 								key={theme.id}
 								onClick={() => setSelectedBaseTheme(theme.id)}
 								className={`text-left p-4 rounded-lg border-2 transition-all duration-200 ${selectedBaseTheme === theme.id ? 'bg-white/15 border-white/50' : 'bg-white/5 border-transparent hover:border-white/30'}`}
 							>
 								<p className="font-bold">{theme.name.split(' / ')[0]}</p>
-								<p className="text-xs text-white/60">{THEME_SUBTITLES[theme.id]}</p>
+								<p className="text-xs text-white/60">{theme.subtitle}</p>
 							</button>
 						))}
 					</div>
@@ -162,29 +164,45 @@ const CustomThemeEditor: React.FC<CustomThemeEditorProps> = ({
 								const isSelected = selectedLayers.includes(layer.id);
 								const isDisabled = !isSelected && !canAddMoreLayers;
 								return (
-									<button
-										key={layer.id}
-										onClick={() => handleLayerToggle(layer.id)}
-										disabled={isDisabled}
-										className={`flex items-center gap-2 p-2 rounded-lg border-2 transition-all duration-200
-											${isSelected ? 'bg-white/15 border-white/50' : 'bg-white/5 border-transparent hover:border-white/30'}
-											${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}
-										`}
-									>
-										<i className={`${layer.icon} w-5 text-center`} />
-										<span className="text-sm">{layer.name}</span>
-									</button>
+									<div key={layer.id} className="relative group">
+										<button
+											onClick={() => handleLayerToggle(layer.id)}
+											disabled={isDisabled}
+											className={`w-full flex items-center gap-2 p-2 rounded-lg border-2 transition-all duration-200
+												${isSelected ? 'bg-white/15 border-white/50' : 'bg-white/5 border-transparent hover:border-white/30'}
+												${isDisabled ? 'opacity-50 cursor-not-allowed' : ''}
+											`}
+										>
+											<i className={`${layer.icon} w-5 text-center`} />
+											<span className="text-sm truncate">{layer.name}</span>
+										</button>
+										{layer.kind === 'upload' && (
+											<button
+												onClick={() => handleDeleteUpload(layer)}
+												className="absolute top-1 right-1 w-5 h-5 flex items-center justify-center rounded-full text-white/50 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+												aria-label={`Delete ${layer.name}`}
+												title="Delete this sound"
+											>
+												<i className="fa-solid fa-xmark text-xs" />
+											</button>
+										)}
+									</div>
 								);
 							})}
 						</div>
 					</div>
+					{onUpload && (
+						<div className="mt-3">
+							<SoundUpload onUpload={handleUpload} />
+						</div>
+					)}
 				</div>
 
 				{/* Step 3: Choose Background */}
 				<div className="mb-8">
                     <h3 className="text-xl font-semibold text-white/90 mb-3">3. Choose Background</h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                        {BACKGROUND_OPTIONS.map(option => (
+                        {backdrops.map(option => (
                             <button
                                 key={option.id}
                                 onClick={() => setSelectedVantaEffect(option.id)}
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { DriftSettings, SoundLayer } from '../types';
+import { DEFAULT_DRIFT_SETTINGS } from '../constants';
+
+export interface DriftState {
+	enabled: boolean;
+	layers: Record<string, DriftSettings>; // Only layers the user has tuned
+}
+
+interface DriftControlsProps {
+	drift: DriftState;
+	layers: SoundLayer[];
+	onChange: (drift: DriftState) => void;
+}
+
+const DriftControls: React.FC<DriftControlsProps> = ({ drift, layers, onChange }) => {
+	const [isOpen, setIsOpen] = useState(false);
+
+	const updateLayer = (layerId: string, patch: Partial<DriftSettings>) => {
+		const current = drift.layers[layerId] ?? DEFAULT_DRIFT_SETTINGS;
+		onChange({ ...drift, layers: { ...drift.layers, [layerId]: { ...current, ...patch } } });
+	};
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setIsOpen(!isOpen)}
+				className={`shine-hover flex items-center gap-2 px-4 py-2 text-sm font-semibold backdrop-blur-md rounded-full transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30 ${drift.enabled ? 'bg-white/15' : 'bg-white/5 hover:bg-white/15'}`}
+				aria-label="Drift"
+				title="Drift: let layer volumes wander around their sliders"
+			>
+				<i className="fa-solid fa-seedling" />
+				{drift.enabled && <span>Alive</span>}
+			</button>
+
+			{isOpen && (
+				<div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-80 p-4 bg-gray-900/90 border border-white/20 rounded-2xl shadow-2xl backdrop-blur-2xl z-30">
+					<label className="flex items-center justify-between mb-3 text-sm font-semibold cursor-pointer">
+						Drift
+						<input
+							type="checkbox"
+							checked={drift.enabled}
+							onChange={(e) => onChange({ ...drift, enabled: e.target.checked })}
+							className="w-5 h-5 accent-white"
+						/>
+					</label>
+					<p className="text-xs text-white/60 mb-3">
+						Each layer wanders slowly around its slider. Depth is how far either side, rate how many wanders per minute.
+					</p>
+					<div className={`space-y-3 max-h-64 overflow-y-auto ${drift.enabled ? '' : 'opacity-50'}`}>
+						{layers.map(layer => {
+							const settings = drift.layers[layer.id] ?? DEFAULT_DRIFT_SETTINGS;
+							return (
+								<div key={layer.id} className="text-xs">
+									<div className="flex items-center justify-between mb-1">
+										<span className="flex items-center gap-2 font-semibold">
+											<i className={`${layer.icon} w-4 text-center`} />
+											{layer.name}
+										</span>
+										<select
+											value={settings.shape}
+											onChange={(e) => updateLayer(layer.id, { shape: e.target.value as DriftSettings['shape'] })}
+											className="px-1 py-0.5 bg-black/30 rounded ring-1 ring-inset ring-white/20 text-white"
+											aria-label={`${layer.name} drift shape`}
+										>
+											<option value="walk">Wander</option>
+											<option value="wave">Wave</option>
+										</select>
+									</div>
+									<label className="flex items-center gap-2 text-white/60">
+										<span className="w-10">Depth</span>
+										<input
+											type="range"
+											min="0"
+											max="0.5"
+											step="0.01"
+											value={settings.depth}
+											onChange={(e) => updateLayer(layer.id, { depth: parseFloat(e.target.value) })}
+											className="flex-grow accent-white"
+										/>
+										<span className="w-10 text-right tabular-nums">±{Math.round(settings.depth * 100)}%</span>
+									</label>
+									<label className="flex items-center gap-2 text-white/60">
+										<span className="w-10">Rate</span>
+										<input
+											type="range"
+											min="0.1"
+											max="4"
+											step="0.1"
+											value={settings.rate}
+											onChange={(e) => updateLayer(layer.id, { rate: parseFloat(e.target.value) })}
+											className="flex-grow accent-white"
+										/>
+										<span className="w-10 text-right tabular-nums">{settings.rate.toFixed(1)}/m</span>
+									</label>
+								</div>
+							);
+						})}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default DriftControls;
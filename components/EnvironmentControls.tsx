@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { EnvironmentSetting } from '../types';
+import { ENVIRONMENTS } from '../audio/reverb';
+
+interface EnvironmentControlsProps {
+	environment: EnvironmentSetting;
+	onChange: (environment: EnvironmentSetting) => void;
+}
+
+const EnvironmentControls: React.FC<EnvironmentControlsProps> = ({ environment, onChange }) => {
+	const [isOpen, setIsOpen] = useState(false);
+	const current = ENVIRONMENTS.find(e => e.id === environment.id) ?? ENVIRONMENTS[0];
+	const isDry = environment.id === 'dry';
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setIsOpen(!isOpen)}
+				className={`shine-hover flex items-center gap-2 px-4 py-2 text-sm font-semibold backdrop-blur-md rounded-full transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30 ${isDry ? 'bg-white/5 hover:bg-white/15' : 'bg-white/15'}`}
+				aria-label="Environment"
+				title={`Environment: ${current.name}`}
+			>
+				<i className={current.icon} />
+				{!isDry && <span>{current.name}</span>}
+			</button>
+
+			{isOpen && (
+				<div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-64 p-4 bg-gray-900/90 border border-white/20 rounded-2xl shadow-2xl backdrop-blur-2xl z-30">
+					<p className="text-xs text-white/60 mb-2">Where the sound is heard</p>
+					<div className="grid grid-cols-2 gap-2 mb-3">
+						{ENVIRONMENTS.map(option => (
+							<button
+								key={option.id}
+								onClick={() => onChange({ ...environment, id: option.id })}
+								className={`flex items-center gap-2 px-2 py-1.5 text-xs rounded-lg transition-colors ring-1 ring-inset ${option.id === environment.id ? 'bg-white/20 ring-white/40' : 'bg-white/5 hover:bg-white/15 ring-white/20'}`}
+							>
+								<i className={`${option.icon} w-4 text-center`} />
+								{option.name}
+							</button>
+						))}
+					</div>
+					<label className={`flex items-center gap-2 text-xs text-white/60 ${isDry ? 'opacity-40' : ''}`}>
+						Dry
+						<input
+							type="range"
+							min="0"
+							max="1"
+							step="0.01"
+							disabled={isDry}
+							value={environment.mix}
+							onChange={(e) => onChange({ ...environment, mix: parseFloat(e.target.value) })}
+							className="flex-grow accent-white"
+							aria-label="Wet/dry mix"
+						/>
+						Wet
+					</label>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default EnvironmentControls;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { MixExportOptions, RenderedTrack } from '../hooks/useAudioEngine';
+import { encodeWav } from '../utils/wav';
+import { downloadBlob } from '../utils/download';
+
+interface ExportDialogProps {
+	isOpen: boolean;
+	onClose: () => void;
+	mixName: string;
+	themeVolume: number;
+	renderExport: (
+		options: MixExportOptions,
+		onTrackRendered: (track: RenderedTrack, index: number, total: number) => void
+	) => Promise<void>;
+}
+
+const MAX_MINUTES = 20; // Longer renders risk running the tab out of memory
+
+const toFileSlug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, mixName, themeVolume, renderExport }) => {
+	const [minutes, setMinutes] = useState(10);
+	const [fadeIn, setFadeIn] = useState(5);
+	const [fadeOut, setFadeOut] = useState(10);
+	const [stems, setStems] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	if (!isOpen) return null;
+
+	const isRendering = status !== null;
+
+	const handleExport = async () => {
+		setError(null);
+		setStatus('Rendering mix…');
+		const baseName = `etherfields-${toFileSlug(mixName)}-${minutes}min`;
+		try {
+			await renderExport(
+				{ duration: minutes * 60, fadeIn, fadeOut, themeVolume, stems },
+				(track, index, total) => {
+					const suffix = track.id === 'mix' ? '' : `-${toFileSlug(track.name)}`;
+					downloadBlob(encodeWav(track.buffer), `${baseName}${suffix}.wav`);
+					if (index + 1 < total) setStatus(`Rendering stem ${index + 1} of ${total - 1}…`);
+				}
+			);
+		} catch (err) {
+			console.error('Export failed:', err);
+			setError('Rendering failed. Try a shorter duration.');
+		} finally {
+			setStatus(null);
+		}
+	};
+
+	return (
+		<div
+			className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-md transition-opacity duration-300 animate-fade-in"
+			onClick={isRendering ? undefined : onClose}
+			aria-modal="true"
+			role="dialog"
+		>
+			<style>{`
+				@keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }
+				.animate-fade-in { animation: fade-in 0.3s ease-out forwards; }
+				@keyframes scale-in { from { transform: scale(0.95); opacity: 0; } to { transform: scale(1); opacity: 1; } }
+				.animate-scale-in { animation: scale-in 0.3s ease-out forwards; }
+			`}</style>
+
+			<div
+				className="relative w-full max-w-md p-8 mx-4 bg-gray-900/70 border border-white/20 rounded-2xl shadow-2xl text-white animate-scale-in backdrop-blur-2xl"
+				onClick={(e) => e.stopPropagation()}
+			>
+				<button
+					onClick={onClose}
+					disabled={isRendering}
+					className="absolute top-4 right-4 p-2 text-gray-400 hover:text-white hover:bg-white/10 rounded-full transition-colors disabled:opacity-30"
+					aria-label="Close"
+				>
+					<svg xmlns="http://www.w3.org/2000/svg" className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+						<path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+					</svg>
+				</button>
+
+				<h2 className="text-3xl font-bold mb-2 text-center">Export Mix</h2>
+				<p className="text-gray-300 mb-6 text-center text-sm">
+					Render the current mix to a WAV file, exactly as it plays here.
+				</p>
+
+				<div className="space-y-4">
+					<label className="flex justify-between items-center p-3 bg-white/5 rounded-lg">
+						<span className="font-semibold text-gray-200">Duration (minutes)</span>
+						<input
+							type="number"
+							min="1"
+							max={MAX_MINUTES}
+							value={minutes}
+							onChange={(e) => setMinutes(Math.max(1, Math.min(MAX_MINUTES, parseInt(e.target.value, 10) || 1)))}
+							className="w-20 px-2 py-1 text-right bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 focus:outline-none focus:ring-white/50"
+						/>
+					</label>
+					<label className="flex justify-between items-center p-3 bg-white/5 rounded-lg">
+						<span className="font-semibold text-gray-200">Fade in (seconds)</span>
+						<input
+							type="number"
+							min="0"
+							value={fadeIn}
+							onChange={(e) => setFadeIn(Math.max(0, parseFloat(e.target.value) || 0))}
+							className="w-20 px-2 py-1 text-right bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 focus:outline-none focus:ring-white/50"
+						/>
+					</label>
+					<label className="flex justify-between items-center p-3 bg-white/5 rounded-lg">
+						<span className="font-semibold text-gray-200">Fade out (seconds)</span>
+						<input
+							type="number"
+							min="0"
+							value={fadeOut}
+							onChange={(e) => setFadeOut(Math.max(0, parseFloat(e.target.value) || 0))}
+							className="w-20 px-2 py-1 text-right bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 focus:outline-none focus:ring-white/50"
+						/>
+					</label>
+					<label className="flex justify-between items-center p-3 bg-white/5 rounded-lg cursor-pointer">
+						<span className="font-semibold text-gray-200">Also export one stem per layer</span>
+						<input type="checkbox" checked={stems} onChange={(e) => setStems(e.target.checked)} className="w-5 h-5 accent-white" />
+					</label>
+				</div>
+
+				{error && <p className="mt-4 text-sm text-red-300 text-center">{error}</p>}
+
+				<div className="flex justify-center mt-8">
+					<button
+						onClick={handleExport}
+						disabled={isRendering}
+						className="shine-hover px-8 py-3 text-lg font-bold bg-white/15 backdrop-blur-md text-white rounded-xl hover:bg-white/25 transition-colors ring-1 ring-inset ring-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+					>
+						{status ?? 'Render & Download'}
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default ExportDialog;
@@ -1,14 +1,19 @@
 import React from 'react';
-import { ALL_SOUND_LAYERS } from '../constants';
+import { SoundLayer } from '../types';
+import { UploadDetails } from '../hooks/useUploads';
+import SoundUpload from './SoundUpload';
 
 interface LayerEditorProps {
+  allLayers: SoundLayer[];
   activeThemeLayers: string[];
   onAddLayer: (layerId: string) => void;
   onReset: () => void;
+  onUpload?: (file: File, details: UploadDetails) => Promise<void>; // Left out where uploads can't be stored
+  onDeleteUpload: (layerId: string) => void;
 }
 
-const LayerEditor: React.FC<LayerEditorProps> = ({ activeThemeLayers, onAddLayer, onReset }) => {
-  const availableLayers = ALL_SOUND_LAYERS.filter(layer => !activeThemeLayers.includes(layer.id));
+const LayerEditor: React.FC<LayerEditorProps> = ({ allLayers, activeThemeLayers, onAddLayer, onReset, onUpload, onDeleteUpload }) => {
+  const availableLayers = allLayers.filter(layer => !activeThemeLayers.includes(layer.id));
 
   return (
     <div className="border-t border-white/20 mt-6 pt-6 animate-fade-in-slow">
@@ -26,19 +31,35 @@ const LayerEditor: React.FC<LayerEditorProps> = ({ activeThemeLayers, onAddLayer
         <p className="text-white/70 mb-3 text-center">Click to add a new sound layer:</p>
         <div className="flex flex-wrap justify-center gap-3">
           {availableLayers.map(layer => (
-            <button
-              key={layer.id}
-              onClick={() => onAddLayer(layer.id)}
-              className="shine-hover flex items-center gap-2 px-4 py-2 bg-white/5 backdrop-blur-md rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30"
-            >
-              <i className={`${layer.icon} text-lg w-5 text-center`} />
-              <span>{layer.name}</span>
-            </button>
+            <div key={layer.id} className="relative group">
+              <button
+                onClick={() => onAddLayer(layer.id)}
+                className="shine-hover flex items-center gap-2 px-4 py-2 bg-white/5 backdrop-blur-md rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30"
+              >
+                <i className={`${layer.icon} text-lg w-5 text-center`} />
+                <span>{layer.name}</span>
+              </button>
+              {layer.kind === 'upload' && (
+                <button
+                  onClick={() => window.confirm(`Delete your sound "${layer.name}" from this browser?`) && onDeleteUpload(layer.id)}
+                  className="absolute -top-2 -right-2 w-5 h-5 flex items-center justify-center rounded-full bg-gray-900 text-white/60 hover:text-white ring-1 ring-white/30 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  aria-label={`Delete ${layer.name}`}
+                  title="Delete this sound"
+                >
+                  <i className="fa-solid fa-xmark text-xs" />
+                </button>
+              )}
+            </div>
           ))}
           {availableLayers.length === 0 && (
             <p className="text-white/50 italic">All available layers have been added.</p>
           )}
         </div>
+        {onUpload && (
+          <div className="mt-4">
+            <SoundUpload onUpload={onUpload} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,97 @@
+import React from 'react';
+import { AssetProgress } from '../types';
+
+interface LoadingScreenProps {
+	assets: AssetProgress[];
+	onRetry: (id: string) => void;
+	onStart: () => void;
+	compact?: boolean; // Shown inside the main panel: only unfinished assets, no start button
+}
+
+const formatBytes = (bytes: number) => {
+	if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AssetRow: React.FC<{ asset: AssetProgress; onRetry: (id: string) => void }> = ({ asset, onRetry }) => {
+	const fraction = asset.status === 'ready' ? 1 : asset.total ? asset.loaded / asset.total : 0;
+	const isFailed = asset.status === 'failed';
+
+	return (
+		<div className="flex items-center gap-3 text-sm">
+			<span className={`w-36 truncate text-left ${isFailed ? 'text-red-300' : 'text-white/80'}`} title={asset.error}>
+				{asset.name}
+			</span>
+			<div className="relative flex-grow h-1.5 rounded-full bg-white/10 overflow-hidden">
+				<div
+					className={`absolute inset-y-0 left-0 rounded-full transition-[width] duration-150 ${isFailed ? 'bg-red-400/70' : 'bg-white/80'} ${asset.status === 'loading' && !asset.total ? 'animate-pulse w-full opacity-40' : ''}`}
+					style={asset.status === 'loading' && !asset.total ? undefined : { width: `${fraction * 100}%` }}
+				/>
+			</div>
+			<span className="w-24 text-right text-xs text-white/60 tabular-nums">
+				{asset.status === 'ready' && <i className="fa-solid fa-check text-white/80" aria-label="Loaded" />}
+				{asset.status === 'pending' && 'Waiting'}
+				{asset.status === 'loading' && (asset.total ? `${Math.round(fraction * 100)}%` : formatBytes(asset.loaded))}
+				{isFailed && (
+					<button
+						onClick={() => onRetry(asset.id)}
+						className="shine-hover px-2 py-0.5 text-xs font-semibold bg-white/5 rounded-lg hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20"
+						aria-label={`Retry loading ${asset.name}`}
+					>
+						<i className="fa-solid fa-rotate-right mr-1" />
+						Retry
+					</button>
+				)}
+			</span>
+		</div>
+	);
+};
+
+const LoadingScreen: React.FC<LoadingScreenProps> = ({ assets, onRetry, onStart, compact = false }) => {
+	const themes = assets.filter(a => a.kind === 'theme');
+	const layers = assets.filter(a => a.kind === 'layer');
+	const readyCount = assets.filter(a => a.status === 'ready').length;
+	const failedCount = assets.filter(a => a.status === 'failed').length;
+
+	if (compact) {
+		const unfinished = assets.filter(a => a.status !== 'ready');
+		if (unfinished.length === 0) return null;
+		return (
+			<div className="mt-6 p-4 bg-black/20 rounded-xl space-y-2">
+				<p className="text-xs text-white/60">
+					{failedCount > 0 ? `${failedCount} sound${failedCount === 1 ? '' : 's'} failed to load` : 'Still loading sounds…'}
+				</p>
+				{unfinished.map(asset => <AssetRow key={asset.id} asset={asset} onRetry={onRetry} />)}
+			</div>
+		);
+	}
+
+	return (
+		<div className="w-full max-w-md p-6 bg-black/30 backdrop-blur-2xl rounded-3xl shadow-2xl border border-white/20">
+			<h2 className="text-lg font-semibold mb-1">Loading Assets</h2>
+			<p className="text-xs text-white/60 mb-4">
+				{readyCount} of {assets.length} ready{failedCount > 0 && ` · ${failedCount} failed`}
+			</p>
+
+			<div className="space-y-4 max-h-72 overflow-y-auto pr-1">
+				<div className="space-y-2">
+					<h3 className="text-xs uppercase tracking-wider text-white/50 text-left">Themes</h3>
+					{themes.map(asset => <AssetRow key={asset.id} asset={asset} onRetry={onRetry} />)}
+				</div>
+				<div className="space-y-2">
+					<h3 className="text-xs uppercase tracking-wider text-white/50 text-left">Layers</h3>
+					{layers.map(asset => <AssetRow key={asset.id} asset={asset} onRetry={onRetry} />)}
+				</div>
+			</div>
+
+			<button
+				onClick={onStart}
+				className="shine-hover mt-6 w-full px-6 py-3 font-bold bg-white/5 backdrop-blur-md text-white rounded-full ring-1 ring-inset ring-white/20 hover:bg-white/15 transition-all duration-300"
+			>
+				Start now with what's ready
+			</button>
+		</div>
+	);
+};
+
+export default LoadingScreen;
@@ -1,14 +1,24 @@
 import React from 'react';
-import { VolumeUpIcon, VolumeOffIcon } from './Icons';
+import { VolumeUpIcon, VolumeOffIcon, PlayIcon, PauseIcon } from './Icons';
 
 interface MasterControlsProps {
   isMuted: boolean;
   onToggleMute: () => void;
+  isPlaying: boolean;
+  onTogglePlayback: () => void;
+  children?: React.ReactNode; // Extra controls shown beside the mute button
 }
 
-const MasterControls: React.FC<MasterControlsProps> = ({ isMuted, onToggleMute }) => {
+const MasterControls: React.FC<MasterControlsProps> = ({ isMuted, onToggleMute, isPlaying, onTogglePlayback, children }) => {
   return (
-    <div className="flex justify-center items-center mt-10">
+    <div className="flex justify-center items-center gap-4 mt-10">
+      <button 
+        onClick={onTogglePlayback}
+        className="shine-hover p-4 bg-white/5 backdrop-blur-md rounded-full text-white hover:bg-white/15 transition-all duration-300 transform hover:scale-110 focus:outline-none focus:ring-4 focus:ring-white/50 ring-1 ring-inset ring-white/20 hover:ring-white/30"
+        aria-label={isPlaying ? "Pause" : "Play"}
+      >
+        {isPlaying ? <PauseIcon className="w-8 h-8" /> : <PlayIcon className="w-8 h-8" />}
+      </button>
       <button 
         onClick={onToggleMute}
         className="shine-hover p-4 bg-white/5 backdrop-blur-md rounded-full text-white hover:bg-white/15 transition-all duration-300 transform hover:scale-110 focus:outline-none focus:ring-4 focus:ring-white/50 ring-1 ring-inset ring-white/20 hover:ring-white/30"
@@ -16,6 +26,7 @@ const MasterControls: React.FC<MasterControlsProps> = ({ isMuted, onToggleMute }
       >
         {isMuted ? <VolumeOffIcon className="w-8 h-8" /> : <VolumeUpIcon className="w-8 h-8" />}
       </button>
+      {children}
     </div>
   );
 };
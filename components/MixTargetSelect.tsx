@@ -0,0 +1,42 @@
+import React from 'react';
+import { MixPreset, MixTarget, Theme } from '../types';
+
+interface MixTargetSelectProps {
+	target: MixTarget;
+	themes: Theme[];
+	presets: MixPreset[];
+	onChange: (target: MixTarget) => void;
+	className?: string;
+}
+
+// Targets travel through the <select> as "theme:<id>", "preset:<id>" or "" for none
+const targetToValue = (target: MixTarget) =>
+	!target ? '' : target.type === 'theme' ? `theme:${target.themeId}` : `preset:${target.presetId}`;
+
+const valueToTarget = (value: string): MixTarget => {
+	const [type, ...rest] = value.split(':');
+	const id = rest.join(':');
+	if (type === 'theme') return { type: 'theme', themeId: id };
+	if (type === 'preset') return { type: 'preset', presetId: id };
+	return null;
+};
+
+const MixTargetSelect: React.FC<MixTargetSelectProps> = ({ target, themes, presets, onChange, className = 'w-36' }) => (
+	<select
+		value={targetToValue(target)}
+		onChange={(e) => onChange(valueToTarget(e.target.value))}
+		className={`${className} px-2 py-1 bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white`}
+	>
+		<option value="">Keep playing</option>
+		<optgroup label="Themes">
+			{themes.map(theme => <option key={theme.id} value={`theme:${theme.id}`}>{theme.name}</option>)}
+		</optgroup>
+		{presets.length > 0 && (
+			<optgroup label="Saved mixes">
+				{presets.map(preset => <option key={preset.id} value={`preset:${preset.id}`}>{preset.name}</option>)}
+			</optgroup>
+		)}
+	</select>
+);
+
+export default MixTargetSelect;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { OfflineItem, OfflineItemStatus } from '../hooks/useOfflineCache';
+import { formatBytes } from '../utils/offlineCache';
+
+interface OfflineControlsProps {
+	isOnline: boolean;
+	items: OfflineItem[];
+	pins: string[];
+	statuses: Record<string, OfflineItemStatus>;
+	storage: { usage: number; quota: number } | null;
+	onPinChange: (id: string, isPinned: boolean) => void;
+	hasChangedFiles: boolean;
+	onUpdateFiles: () => void;
+}
+
+const describeStatus = (status: OfflineItemStatus | undefined, isPinned: boolean) => {
+	if (!status) return isPinned ? 'Waiting…' : 'Streams online';
+	switch (status.state) {
+		case 'downloading': return `Saving… ${Math.round(status.progress * 100)}%`;
+		case 'ready': return formatBytes(status.bytes);
+		case 'failed': return 'Couldn’t save';
+		default: return 'Streams online';
+	}
+};
+
+const OfflineControls: React.FC<OfflineControlsProps> = ({ isOnline, items, pins, statuses, storage, onPinChange, hasChangedFiles, onUpdateFiles }) => {
+	const [isOpen, setIsOpen] = useState(false);
+	const isSaving = Object.values(statuses).some((status: OfflineItemStatus) => status.state === 'downloading');
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setIsOpen(!isOpen)}
+				className={`shine-hover flex items-center gap-2 px-4 py-2 text-sm font-semibold backdrop-blur-md rounded-full transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30 ${isOnline ? 'bg-white/5 hover:bg-white/15' : 'bg-white/15'}`}
+				aria-label="Offline sounds"
+				title={isOnline ? 'Offline sounds' : 'Offline: playing saved sounds'}
+			>
+				<i className={`fa-solid ${isSaving ? 'fa-cloud-arrow-down fa-fade' : isOnline ? 'fa-cloud-arrow-down' : 'fa-plane'}`} />
+				{hasChangedFiles && <span className="w-2 h-2 rounded-full bg-amber-300" aria-label="Updates available" />}
+			</button>
+
+			{isOpen && (
+				<div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-72 p-4 bg-gray-900/90 border border-white/20 rounded-2xl shadow-2xl backdrop-blur-2xl z-30">
+					<p className="text-xs text-white/60 mb-3">
+						{isOnline ? 'Keep sounds on this device to play them without a connection.' : 'You’re offline. Saved sounds keep playing; the rest will be back with the connection.'}
+					</p>
+					<ul className="space-y-2">
+						{items.map(item => {
+							const isPinned = pins.includes(item.id);
+							const status = statuses[item.id];
+							return (
+								<li key={item.id}>
+									<label className="flex items-center justify-between gap-2 text-sm cursor-pointer">
+										<span className="flex items-center gap-2">
+											<input
+												type="checkbox"
+												checked={isPinned}
+												onChange={(e) => onPinChange(item.id, e.target.checked)}
+												className="w-4 h-4 accent-white"
+											/>
+											{item.name}
+										</span>
+										<span className={`text-xs tabular-nums ${status?.state === 'failed' ? 'text-amber-300' : 'text-white/50'}`} title={status?.error}>
+											{describeStatus(status, isPinned)}
+										</span>
+									</label>
+								</li>
+							);
+						})}
+					</ul>
+					{hasChangedFiles && (
+						<button
+							onClick={onUpdateFiles}
+							className="shine-hover w-full mt-3 px-4 py-2 text-sm font-semibold bg-white/10 rounded-xl hover:bg-white/20 transition-colors ring-1 ring-inset ring-white/20"
+						>
+							Sounds were updated · Download again
+						</button>
+					)}
+					{storage && (
+						<p className="mt-3 text-xs text-white/40 text-center">
+							{formatBytes(storage.usage)} used of {formatBytes(storage.quota)} available
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
+
+interface AppUpdateBannerProps {
+	onReload: () => void;
+}
+
+// Shown once a new version of the app has been fetched and is waiting to take over
+export const AppUpdateBanner: React.FC<AppUpdateBannerProps> = ({ onReload }) => (
+	<div className="fixed z-40 top-6 left-1/2 -translate-x-1/2 flex items-center gap-3 px-4 py-2 text-sm bg-gray-900/90 border border-white/20 rounded-full shadow-2xl backdrop-blur-2xl" role="status">
+		<span className="text-white/80">A new version of Etherfields is ready.</span>
+		<button onClick={onReload} className="font-semibold text-white hover:underline">
+			Reload
+		</button>
+	</div>
+);
+
+export default OfflineControls;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { MixPreset, PomodoroConfig, PomodoroSession, Theme } from '../types';
+import { formatRemaining } from './SleepTimer';
+import MixTargetSelect from './MixTargetSelect';
+
+interface PomodoroControlsProps {
+	session: PomodoroSession | null;
+	remaining: number; // seconds
+	config: PomodoroConfig; // Last used settings, the starting point for the next session
+	themes: Theme[];
+	presets: MixPreset[];
+	onConfigChange: (config: PomodoroConfig) => void;
+	onStart: (config: PomodoroConfig) => void;
+	onSkip: () => void;
+	onStop: () => void;
+}
+
+export const describePhase = (session: PomodoroSession) =>
+	`${session.phase === 'work' ? 'Focus' : 'Break'} · ${session.cycle} of ${session.config.cycles}`;
+
+const PomodoroControls: React.FC<PomodoroControlsProps> = ({ session, remaining, config, themes, presets, onConfigChange, onStart, onSkip, onStop }) => {
+	const [isOpen, setIsOpen] = useState(false);
+
+	const update = (patch: Partial<PomodoroConfig>) => onConfigChange({ ...config, ...patch });
+
+	const numberField = (label: string, key: 'workMinutes' | 'breakMinutes' | 'cycles', max: number) => (
+		<label className="flex items-center justify-between text-xs text-white/60">
+			{label}
+			<input
+				type="number"
+				min="1"
+				max={max}
+				value={config[key]}
+				onChange={(e) => {
+					const value = parseInt(e.target.value, 10);
+					if (Number.isFinite(value) && value > 0) update({ [key]: Math.min(max, value) });
+				}}
+				className="w-16 px-2 py-1 text-sm text-right bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white focus:outline-none focus:ring-white/50"
+			/>
+		</label>
+	);
+
+	const targetField = (label: string, key: 'work' | 'break') => (
+		<label className="flex items-center justify-between gap-2 text-xs text-white/60">
+			{label}
+			<MixTargetSelect
+				target={config[key]}
+				themes={themes}
+				presets={presets}
+				onChange={(target) => update({ [key]: target })}
+			/>
+		</label>
+	);
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setIsOpen(!isOpen)}
+				className={`shine-hover flex items-center gap-2 px-4 py-2 text-sm font-semibold backdrop-blur-md rounded-full transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30 ${session ? 'bg-white/15' : 'bg-white/5 hover:bg-white/15'}`}
+				aria-label="Focus session"
+				title="Focus session"
+			>
+				<i className="fa-solid fa-stopwatch" />
+				{session && <span className="tabular-nums">{formatRemaining(remaining)}</span>}
+			</button>
+
+			{isOpen && (
+				<div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-72 p-4 bg-gray-900/90 border border-white/20 rounded-2xl shadow-2xl backdrop-blur-2xl z-30">
+					{session ? (
+						<>
+							<p className="text-sm font-semibold mb-3 text-center">{describePhase(session)}</p>
+							<div className="flex gap-2">
+								<button
+									onClick={onSkip}
+									className="shine-hover flex-1 px-4 py-2 text-sm font-semibold bg-white/5 rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20"
+								>
+									Skip phase
+								</button>
+								<button
+									onClick={() => { onStop(); setIsOpen(false); }}
+									className="shine-hover flex-1 px-4 py-2 text-sm font-semibold bg-white/5 rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20"
+								>
+									End session
+								</button>
+							</div>
+						</>
+					) : (
+						<div className="space-y-2">
+							<p className="text-xs text-white/60 mb-1">Alternate focus and break, switching the sound with each phase.</p>
+							{numberField('Focus (min)', 'workMinutes', 180)}
+							{numberField('Break (min)', 'breakMinutes', 60)}
+							{numberField('Cycles', 'cycles', 12)}
+							{targetField('Focus sound', 'work')}
+							{targetField('Break sound', 'break')}
+							<label className="flex items-center justify-between text-xs text-white/60 cursor-pointer">
+								Chime between phases
+								<input
+									type="checkbox"
+									checked={config.chime}
+									onChange={(e) => update({ chime: e.target.checked })}
+									className="w-4 h-4 accent-white"
+								/>
+							</label>
+							<button
+								onClick={() => { onStart(config); setIsOpen(false); }}
+								className="shine-hover w-full mt-2 px-4 py-2 text-sm font-semibold bg-white/10 rounded-xl hover:bg-white/20 transition-colors ring-1 ring-inset ring-white/20"
+							>
+								Start session
+							</button>
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
+
+interface PomodoroCountdownProps {
+	session: PomodoroSession;
+	remaining: number; // seconds
+}
+
+// The current phase and time left, shown in the main panel while a session runs
+export const PomodoroCountdown: React.FC<PomodoroCountdownProps> = ({ session, remaining }) => {
+	const phaseSeconds = (session.phase === 'work' ? session.config.workMinutes : session.config.breakMinutes) * 60;
+	const progress = Math.max(0, Math.min(1, 1 - remaining / phaseSeconds));
+	return (
+		<div className="flex flex-col items-center mt-4" role="timer" aria-live="off">
+			<div className="flex items-baseline gap-3">
+				<span className="text-xs uppercase tracking-widest text-white/60">{describePhase(session)}</span>
+				<span className="text-2xl font-semibold tabular-nums">{formatRemaining(remaining)}</span>
+			</div>
+			<div className="w-48 h-1 mt-2 rounded-full bg-white/10 overflow-hidden">
+				<div className="h-full rounded-full bg-white/70 transition-[width] duration-1000 ease-linear" style={{ width: `${progress * 100}%` }} />
+			</div>
+		</div>
+	);
+};
+
+export default PomodoroControls;
@@ -0,0 +1,263 @@
+import React, { useState, useRef } from 'react';
+import { MixPreset } from '../types';
+import { CUSTOM_THEME_ID } from '../constants';
+import { PresetConflictPolicy } from '../hooks/usePresets';
+import { serializePresets, parsePresetFile, ImportedPreset } from '../utils/presetFile';
+import { downloadBlob } from '../utils/download';
+import { StoredUpload } from '../utils/uploadStore';
+import { getThemes } from '../utils/themeRegistry';
+
+interface PresetLibraryProps {
+	presets: MixPreset[];
+	onApply: (preset: MixPreset) => void;
+	onSave: (name: string) => void;
+	onRename: (id: string, name: string) => void;
+	onDuplicate: (id: string) => void;
+	onDelete: (id: string) => void;
+	onImport: (presets: ImportedPreset[], policy: PresetConflictPolicy, sounds: StoredUpload[]) => Promise<void>;
+	uploads: StoredUpload[]; // The user's own sounds, exported along with the presets that use them
+}
+
+const describePreset = (preset: MixPreset) => {
+	const theme = getThemes().find(t => t.id === preset.baseThemeId);
+	const themeName = theme ? theme.name.split(' / ')[0] : preset.baseThemeId;
+	const prefix = preset.themeId === CUSTOM_THEME_ID ? `Custom · ${themeName}` : themeName;
+	return `${prefix} · ${preset.layers.length} layer${preset.layers.length === 1 ? '' : 's'}`;
+};
+
+const toFileSlug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset';
+
+const exportPresets = async (presets: MixPreset[], uploads: StoredUpload[], filename: string) => {
+	downloadBlob(new Blob([await serializePresets(presets, uploads)], { type: 'application/json' }), filename);
+};
+
+const iconButtonClass = 'w-8 h-8 flex items-center justify-center rounded-full text-white/60 hover:text-white hover:bg-white/10 transition-colors';
+
+const PresetLibrary: React.FC<PresetLibraryProps> = ({ presets, onApply, onSave, onRename, onDuplicate, onDelete, onImport, uploads }) => {
+	const [newName, setNewName] = useState('');
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [editingName, setEditingName] = useState('');
+	const [pendingImport, setPendingImport] = useState<{ presets: ImportedPreset[]; sounds: StoredUpload[]; warnings: string[] } | null>(null);
+	const [fileError, setFileError] = useState<string | null>(null);
+	const [conflictPolicy, setConflictPolicy] = useState<PresetConflictPolicy>('rename');
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = ''; // Allow choosing the same file again
+		if (!file) return;
+
+		let text: string;
+		try {
+			text = await file.text();
+		} catch (err) {
+			setPendingImport(null);
+			setFileError(`Couldn’t read the file: ${err instanceof Error ? err.message : String(err)}`);
+			return;
+		}
+		const result = parsePresetFile(text, uploads.map(upload => upload.layer));
+		if (result.ok === false) {
+			setPendingImport(null);
+			setFileError(result.error);
+			return;
+		}
+		setFileError(null);
+		setPendingImport({ presets: result.presets, sounds: result.sounds, warnings: result.warnings });
+	};
+
+	const handleExport = async (toExport: MixPreset[], filename: string) => {
+		setFileError(null);
+		try {
+			await exportPresets(toExport, uploads, filename);
+		} catch (err) {
+			setFileError(`Couldn’t export the presets: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	};
+
+	const confirmImport = async () => {
+		if (!pendingImport) return;
+		setPendingImport(null);
+		try {
+			await onImport(pendingImport.presets, conflictPolicy, pendingImport.sounds);
+		} catch (err) {
+			setFileError(`Couldn’t store the file’s sounds, so nothing was imported: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	};
+
+	const conflictCount = pendingImport ? pendingImport.presets.filter(p => presets.some(o => o.name === p.name)).length : 0;
+
+	const handleSave = () => {
+		onSave(newName);
+		setNewName('');
+	};
+
+	const commitRename = () => {
+		if (editingId) onRename(editingId, editingName);
+		setEditingId(null);
+	};
+
+	return (
+		<div className="border-t border-white/20 mt-6 pt-6 animate-fade-in-slow">
+			<style>{`.animate-fade-in-slow { animation: fade-in 0.4s ease-out forwards; } @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }`}</style>
+			<div className="flex justify-between items-center mb-4 gap-3">
+				<h3 className="text-xl font-bold text-white/90">Presets</h3>
+				<div className="flex gap-2">
+					<input
+						type="text"
+						value={newName}
+						onChange={(e) => setNewName(e.target.value)}
+						onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+						placeholder="Name this mix"
+						className="w-40 md:w-56 px-3 py-2 text-sm bg-black/30 rounded-xl ring-1 ring-inset ring-white/20 focus:outline-none focus:ring-white/50"
+					/>
+					<button
+						onClick={handleSave}
+						className="shine-hover px-4 py-2 text-sm font-semibold bg-white/5 backdrop-blur-md text-white rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30 whitespace-nowrap"
+					>
+						Save as
+					</button>
+				</div>
+			</div>
+			<div className="flex justify-end gap-2 mb-3">
+				<input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChosen} className="hidden" />
+				<button
+					onClick={() => fileInputRef.current?.click()}
+					className="shine-hover px-3 py-1.5 text-xs font-semibold bg-white/5 backdrop-blur-md rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20"
+				>
+					<i className="fa-solid fa-file-import mr-1.5" />
+					Import
+				</button>
+				<button
+					onClick={() => handleExport(presets, 'etherfields-presets.json')}
+					disabled={presets.length === 0}
+					className="shine-hover px-3 py-1.5 text-xs font-semibold bg-white/5 backdrop-blur-md rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20 disabled:opacity-40"
+				>
+					<i className="fa-solid fa-file-export mr-1.5" />
+					Export all
+				</button>
+			</div>
+			{fileError && <p className="mb-3 text-sm text-red-300">{fileError}</p>}
+			{pendingImport && (
+				<div className="mb-3 p-3 bg-white/5 rounded-xl text-sm space-y-2">
+					<p className="font-semibold">
+						{pendingImport.presets.length} preset{pendingImport.presets.length === 1 ? '' : 's'} ready to import
+						{conflictCount > 0 && ` · ${conflictCount} with a name already in your library`}
+						{pendingImport.sounds.length > 0 && ` · brings ${pendingImport.sounds.length} of your own sound${pendingImport.sounds.length === 1 ? '' : 's'}`}
+					</p>
+					{pendingImport.warnings.length > 0 && (
+						<ul className="text-xs text-amber-200/90 list-disc pl-5 max-h-24 overflow-y-auto">
+							{pendingImport.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+						</ul>
+					)}
+					{conflictCount > 0 && (
+						<label className="flex items-center gap-2 text-xs text-white/70">
+							Name conflicts:
+							<select
+								value={conflictPolicy}
+								onChange={(e) => setConflictPolicy(e.target.value as PresetConflictPolicy)}
+								className="px-2 py-1 bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white"
+							>
+								<option value="rename">Keep both (rename imported)</option>
+								<option value="replace">Replace existing</option>
+								<option value="skip">Skip imported</option>
+							</select>
+						</label>
+					)}
+					<div className="flex justify-end gap-2">
+						<button onClick={() => setPendingImport(null)} className="px-3 py-1 text-xs rounded-lg hover:bg-white/10">Cancel</button>
+						<button
+							onClick={confirmImport}
+							disabled={pendingImport.presets.length === 0}
+							className="px-3 py-1 text-xs font-semibold bg-white/15 rounded-lg hover:bg-white/25 ring-1 ring-inset ring-white/30 disabled:opacity-40"
+						>
+							Import
+						</button>
+					</div>
+				</div>
+			)}
+			<div className="p-2 bg-black/20 rounded-xl max-h-64 overflow-y-auto">
+				{presets.length === 0 && (
+					<p className="p-3 text-white/50 italic text-center">No presets yet. Save the current mix to start your library.</p>
+				)}
+				{presets.map(preset => (
+					<div key={preset.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-white/5">
+						{editingId === preset.id ? (
+							<input
+								autoFocus
+								type="text"
+								value={editingName}
+								onChange={(e) => setEditingName(e.target.value)}
+								onBlur={commitRename}
+								onKeyDown={(e) => {
+									if (e.key === 'Enter') commitRename();
+									if (e.key === 'Escape') setEditingId(null);
+								}}
+								className="flex-grow px-2 py-1 text-sm bg-black/30 rounded-lg ring-1 ring-inset ring-white/30 focus:outline-none"
+								aria-label="Preset name"
+							/>
+						) : (
+							<button onClick={() => onApply(preset)} className="flex-grow text-left min-w-0" title={`Apply "${preset.name}"`}>
+								<p className="font-semibold truncate">{preset.name}</p>
+								<p className="text-xs text-white/50 truncate">{describePreset(preset)}</p>
+							</button>
+						)}
+						<button
+							onClick={() => { setEditingId(preset.id); setEditingName(preset.name); }}
+							className={iconButtonClass}
+							aria-label={`Rename ${preset.name}`}
+							title="Rename"
+						>
+							<i className="fa-solid fa-pen text-sm" />
+						</button>
+						<button
+							onClick={() => handleExport([preset], `${toFileSlug(preset.name)}.json`)}
+							className={iconButtonClass}
+							aria-label={`Export ${preset.name}`}
+							title="Export to file"
+						>
+							<i className="fa-solid fa-file-arrow-down text-sm" />
+						</button>
+						<button onClick={() => onDuplicate(preset.id)} className={iconButtonClass} aria-label={`Duplicate ${preset.name}`} title="Duplicate">
+							<i className="fa-solid fa-clone text-sm" />
+						</button>
+						<button
+							onClick={() => window.confirm(`Delete the preset "${preset.name}"?`) && onDelete(preset.id)}
+							className={iconButtonClass}
+							aria-label={`Delete ${preset.name}`}
+							title="Delete"
+						>
+							<i className="fa-solid fa-trash text-sm" />
+						</button>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+};
+
+interface PresetQuickSwitchProps {
+	presets: MixPreset[];
+	onApply: (preset: MixPreset) => void;
+}
+
+// A single row of preset chips for switching mixes without opening the library
+export const PresetQuickSwitch: React.FC<PresetQuickSwitchProps> = ({ presets, onApply }) => {
+	if (presets.length === 0) return null;
+	return (
+		<div className="flex justify-start md:justify-center gap-2 mt-4 overflow-x-auto slider-container pb-1">
+			{presets.map(preset => (
+				<button
+					key={preset.id}
+					onClick={() => onApply(preset)}
+					className="shine-hover flex-shrink-0 px-3 py-1 text-xs font-semibold bg-white/5 backdrop-blur-md rounded-full hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/15 hover:ring-white/30"
+					title={describePreset(preset)}
+				>
+					<i className="fa-solid fa-bookmark mr-1.5 text-white/60" />
+					{preset.name}
+				</button>
+			))}
+		</div>
+	);
+};
+
+export default PresetLibrary;
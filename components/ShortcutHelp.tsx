@@ -0,0 +1,53 @@
+import React from 'react';
+import { Shortcut } from '../hooks/useKeyboardShortcuts';
+
+interface ShortcutHelpProps {
+	isOpen: boolean;
+	shortcuts: Shortcut[];
+	onClose: () => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ isOpen, shortcuts, onClose }) => {
+	if (!isOpen) return null;
+
+	return (
+		<div
+			className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-md"
+			onClick={onClose}
+			aria-modal="true"
+			role="dialog"
+			aria-label="Keyboard shortcuts"
+		>
+			<div
+				className="relative w-full max-w-md p-8 mx-4 bg-gray-900/70 border border-white/20 rounded-2xl shadow-2xl text-white backdrop-blur-2xl"
+				onClick={(e) => e.stopPropagation()}
+			>
+				<button
+					onClick={onClose}
+					className="absolute top-4 right-4 w-9 h-9 flex items-center justify-center text-gray-400 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+					aria-label="Close"
+				>
+					<i className="fa-solid fa-xmark text-lg" />
+				</button>
+
+				<h2 className="text-2xl font-bold mb-6 text-center">Keyboard Shortcuts</h2>
+				<dl className="space-y-2 text-sm">
+					{shortcuts.map(shortcut => (
+						<div key={shortcut.id} className="flex items-center justify-between gap-4">
+							<dt className="text-white/70">{shortcut.description}</dt>
+							<dd>
+								<kbd className="px-2 py-0.5 text-xs font-semibold bg-white/10 rounded-md ring-1 ring-inset ring-white/20 whitespace-nowrap">
+									{shortcut.mod ? `${isMac ? '⌘' : 'Ctrl'}+` : ''}{shortcut.label}
+								</kbd>
+							</dd>
+						</div>
+					))}
+				</dl>
+			</div>
+		</div>
+	);
+};
+
+export default ShortcutHelp;
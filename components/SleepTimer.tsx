@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { SleepTimerPhase } from '../hooks/useSleepTimer';
+
+interface SleepTimerProps {
+	phase: SleepTimerPhase;
+	remaining: number; // seconds
+	onStart: (minutes: number, fadeMinutes: number) => void;
+	onCancel: () => void;
+}
+
+const DURATION_PRESETS = [15, 30, 60, 90];
+const FADE_OPTIONS = [1, 5, 10, 20];
+
+export const formatRemaining = (seconds: number) => {
+	const total = Math.ceil(seconds);
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = total % 60;
+	const mm = hours > 0 ? String(minutes).padStart(2, '0') : String(minutes);
+	return `${hours > 0 ? `${hours}:` : ''}${mm}:${String(secs).padStart(2, '0')}`;
+};
+
+const SleepTimer: React.FC<SleepTimerProps> = ({ phase, remaining, onStart, onCancel }) => {
+	const [isOpen, setIsOpen] = useState(false);
+	const [customMinutes, setCustomMinutes] = useState('45');
+	const [fadeMinutes, setFadeMinutes] = useState(10);
+
+	const handleStart = (minutes: number) => {
+		if (!Number.isFinite(minutes) || minutes <= 0) return;
+		onStart(minutes, fadeMinutes);
+		setIsOpen(false);
+	};
+
+	const isActive = phase === 'running' || phase === 'fading';
+
+	return (
+		<div className="relative">
+			{phase === 'asleep' ? (
+				<button
+					onClick={onCancel}
+					className="shine-hover flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-white/5 backdrop-blur-md rounded-full hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20"
+				>
+					<i className="fa-solid fa-sun" />
+					Wake
+				</button>
+			) : (
+				<button
+					onClick={() => setIsOpen(!isOpen)}
+					className={`shine-hover flex items-center gap-2 px-4 py-2 text-sm font-semibold backdrop-blur-md rounded-full transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30 ${isActive ? 'bg-white/15' : 'bg-white/5 hover:bg-white/15'}`}
+					aria-label="Sleep timer"
+					title="Sleep timer"
+				>
+					<i className="fa-solid fa-moon" />
+					{isActive && <span className="tabular-nums">{formatRemaining(remaining)}</span>}
+					{phase === 'fading' && <span className="text-xs text-white/60">fading</span>}
+				</button>
+			)}
+
+			{isOpen && phase !== 'asleep' && (
+				<div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-64 p-4 bg-gray-900/90 border border-white/20 rounded-2xl shadow-2xl backdrop-blur-2xl z-30">
+					{isActive ? (
+						<button
+							onClick={() => { onCancel(); setIsOpen(false); }}
+							className="shine-hover w-full px-4 py-2 text-sm font-semibold bg-white/5 rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20"
+						>
+							Cancel timer
+						</button>
+					) : (
+						<>
+							<p className="text-xs text-white/60 mb-2">Fade out and stop after</p>
+							<div className="grid grid-cols-4 gap-2 mb-3">
+								{DURATION_PRESETS.map(minutes => (
+									<button
+										key={minutes}
+										onClick={() => handleStart(minutes)}
+										className="px-2 py-1.5 text-sm bg-white/5 rounded-lg hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20"
+									>
+										{minutes}m
+									</button>
+								))}
+							</div>
+							<div className="flex gap-2 mb-3">
+								<input
+									type="number"
+									min="1"
+									value={customMinutes}
+									onChange={(e) => setCustomMinutes(e.target.value)}
+									className="w-full px-2 py-1.5 text-sm bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 focus:outline-none focus:ring-white/50"
+									aria-label="Custom minutes"
+								/>
+								<button
+									onClick={() => handleStart(parseFloat(customMinutes))}
+									className="px-3 py-1.5 text-sm bg-white/10 rounded-lg hover:bg-white/20 transition-colors ring-1 ring-inset ring-white/20 whitespace-nowrap"
+								>
+									Start
+								</button>
+							</div>
+							<label className="flex items-center justify-between text-xs text-white/60">
+								Fade over the last
+								<select
+									value={fadeMinutes}
+									onChange={(e) => setFadeMinutes(parseInt(e.target.value, 10))}
+									className="ml-2 px-2 py-1 bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white"
+								>
+									{FADE_OPTIONS.map(minutes => (
+										<option key={minutes} value={minutes}>{minutes} min</option>
+									))}
+								</select>
+							</label>
+						</>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default SleepTimer;
@@ -0,0 +1,115 @@
+import React, { useState, useRef } from 'react';
+import { SoundLayer, Vector3 } from '../types';
+import { STAGE_RADIUS } from '../constants';
+
+interface SoundStageProps {
+	layers: SoundLayer[];
+	positions: Record<string, Vector3>; // Placed layers; the rest show their default spot
+	onMove: (layerId: string, position: Vector3) => void; // Live, while dragging
+	onCommit: (layerId: string, position: Vector3) => void; // When a drag ends
+	onReset: () => void;
+}
+
+const RINGS = [2, 4]; // Inside the first ring a source plays at full level
+
+const defaultPosition = (layer: SoundLayer): Vector3 => layer.spatial?.position ?? { x: 0, y: 0, z: -1 };
+
+// Top-down view: x runs left to right, and the listener faces up the screen (-z)
+const toPercent = (value: number) => 50 + (value / STAGE_RADIUS) * 50;
+
+const SoundStage: React.FC<SoundStageProps> = ({ layers, positions, onMove, onCommit, onReset }) => {
+	const stageRef = useRef<HTMLDivElement>(null);
+	const [dragging, setDragging] = useState<{ layerId: string; position: Vector3 } | null>(null);
+
+	const positionFromPointer = (e: React.PointerEvent, current: Vector3): Vector3 => {
+		const rect = stageRef.current!.getBoundingClientRect();
+		let x = ((e.clientX - rect.left) / rect.width - 0.5) * 2 * STAGE_RADIUS;
+		let z = ((e.clientY - rect.top) / rect.height - 0.5) * 2 * STAGE_RADIUS;
+		const distance = Math.hypot(x, z);
+		if (distance > STAGE_RADIUS) {
+			x = (x / distance) * STAGE_RADIUS;
+			z = (z / distance) * STAGE_RADIUS;
+		}
+		return { x: +x.toFixed(2), y: current.y, z: +z.toFixed(2) };
+	};
+
+	const handlePointerDown = (e: React.PointerEvent, layer: SoundLayer) => {
+		e.currentTarget.setPointerCapture(e.pointerId);
+		setDragging({ layerId: layer.id, position: positions[layer.id] ?? defaultPosition(layer) });
+	};
+
+	const handlePointerMove = (e: React.PointerEvent) => {
+		if (!dragging) return;
+		const position = positionFromPointer(e, dragging.position);
+		setDragging({ ...dragging, position });
+		onMove(dragging.layerId, position);
+	};
+
+	const handlePointerUp = () => {
+		if (!dragging) return;
+		onCommit(dragging.layerId, dragging.position);
+		setDragging(null);
+	};
+
+	return (
+		<div className="border-t border-white/20 mt-6 pt-6 animate-fade-in-slow">
+			<style>{`.animate-fade-in-slow { animation: fade-in 0.4s ease-out forwards; } @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }`}</style>
+			<div className="flex justify-between items-center mb-4">
+				<h3 className="text-xl font-bold text-white/90">Sound Stage</h3>
+				<button
+					onClick={onReset}
+					className="shine-hover px-4 py-2 text-sm font-semibold bg-white/5 backdrop-blur-md text-white rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30"
+				>
+					Reset Positions
+				</button>
+			</div>
+			<p className="text-white/70 mb-3 text-center text-sm">
+				Drag a sound to place it around you. Closer is louder; moving sounds keep moving around their new spot.
+			</p>
+			<div className="p-4 bg-black/20 rounded-xl flex justify-center">
+				<div
+					ref={stageRef}
+					className="relative w-full max-w-sm aspect-square rounded-full border border-white/20 touch-none select-none"
+					onPointerMove={handlePointerMove}
+					onPointerUp={handlePointerUp}
+					onPointerCancel={handlePointerUp}
+				>
+					{RINGS.map(radius => (
+						<div
+							key={radius}
+							className="absolute rounded-full border border-dashed border-white/15 pointer-events-none"
+							style={{ inset: `${50 - (radius / STAGE_RADIUS) * 50}%` }}
+						/>
+					))}
+					<span className="absolute top-2 left-1/2 -translate-x-1/2 text-xs text-white/40 pointer-events-none">Front</span>
+					<span className="absolute bottom-2 left-1/2 -translate-x-1/2 text-xs text-white/40 pointer-events-none">Behind</span>
+
+					{/* the listener */}
+					<div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-10 h-10 flex items-center justify-center rounded-full bg-white/10 ring-1 ring-white/30 pointer-events-none">
+						<i className="fa-solid fa-headphones text-white/80" />
+					</div>
+
+					{layers.map(layer => {
+						const position = dragging?.layerId === layer.id ? dragging.position : positions[layer.id] ?? defaultPosition(layer);
+						return (
+							<button
+								key={layer.id}
+								onPointerDown={(e) => handlePointerDown(e, layer)}
+								className={`absolute -translate-x-1/2 -translate-y-1/2 w-11 h-11 flex items-center justify-center rounded-full backdrop-blur-md ring-1 ring-inset cursor-grab active:cursor-grabbing transition-colors ${
+									dragging?.layerId === layer.id ? 'bg-white/30 ring-white/60' : positions[layer.id] ? 'bg-white/15 ring-white/40' : 'bg-white/5 ring-white/20'
+								}`}
+								style={{ left: `${toPercent(position.x)}%`, top: `${toPercent(position.z)}%` }}
+								aria-label={`Place ${layer.name}`}
+								title={layer.name}
+							>
+								<i className={`${layer.icon} text-lg`} />
+							</button>
+						);
+					})}
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default SoundStage;
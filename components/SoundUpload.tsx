@@ -0,0 +1,234 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { UPLOAD_ICONS } from '../constants';
+import { UploadDetails } from '../hooks/useUploads';
+
+interface SoundUploadProps {
+	onUpload: (file: File, details: UploadDetails) => Promise<void>;
+}
+
+const AUDIO_FILE = /\.(mp3|ogg|oga|opus|wav|m4a|aac|flac|webm)$/i;
+const MIN_LOOP = 1; // s, shortest loop the trim points may leave
+
+const isAudioFile = (file: File) => file.type.startsWith('audio/') || AUDIO_FILE.test(file.name);
+
+const formatTime = (seconds: number) => {
+	const minutes = Math.floor(seconds / 60);
+	return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const nameFromFile = (fileName: string) => fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+
+// Drop zone and form for adding one of your own recordings as a layer: a name, an
+// icon, and the part of the file to loop. The preview loops that part too, so the
+// seam can be heard before saving.
+const SoundUpload: React.FC<SoundUploadProps> = ({ onUpload }) => {
+	const [file, setFile] = useState<File | null>(null);
+	const [fileUrl, setFileUrl] = useState<string | null>(null);
+	const [duration, setDuration] = useState<number | null>(null);
+	const [name, setName] = useState('');
+	const [icon, setIcon] = useState(UPLOAD_ICONS[0]);
+	const [trimStart, setTrimStart] = useState(0);
+	const [trimEnd, setTrimEnd] = useState(0);
+	const [isDragging, setIsDragging] = useState(false);
+	const [isPreviewing, setIsPreviewing] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const audioRef = useRef<HTMLAudioElement>(null);
+
+	useEffect(() => {
+		return () => {
+			if (fileUrl) URL.revokeObjectURL(fileUrl);
+		};
+	}, [fileUrl]);
+
+	const reset = () => {
+		setFile(null);
+		setFileUrl(null);
+		setDuration(null);
+		setIsPreviewing(false);
+		setError(null);
+	};
+
+	const chooseFile = (chosen: File | undefined) => {
+		if (!chosen) return;
+		if (!isAudioFile(chosen)) {
+			setError(`"${chosen.name}" is not an audio file.`);
+			return;
+		}
+		reset();
+		setFile(chosen);
+		setFileUrl(URL.createObjectURL(chosen));
+		setName(nameFromFile(chosen.name));
+	};
+
+	const handleDrop = (e: React.DragEvent) => {
+		e.preventDefault();
+		setIsDragging(false);
+		chooseFile(e.dataTransfer.files[0]);
+	};
+
+	const handleLoadedMetadata = () => {
+		const length = audioRef.current?.duration ?? 0;
+		if (!Number.isFinite(length) || length < MIN_LOOP) {
+			setError('This recording is too short to loop.');
+			return;
+		}
+		setDuration(length);
+		setTrimStart(0);
+		setTrimEnd(length);
+	};
+
+	// Keeps the preview inside the trim points
+	const handleTimeUpdate = () => {
+		const audio = audioRef.current;
+		if (audio && (audio.currentTime >= trimEnd || audio.currentTime < trimStart)) audio.currentTime = trimStart;
+	};
+
+	const togglePreview = () => {
+		const audio = audioRef.current;
+		if (!audio) return;
+		if (isPreviewing) {
+			audio.pause();
+			setIsPreviewing(false);
+			return;
+		}
+		audio.currentTime = trimStart;
+		audio.play().then(() => setIsPreviewing(true)).catch(() => setIsPreviewing(false));
+	};
+
+	const handleSave = async () => {
+		if (!file || duration === null) return;
+		audioRef.current?.pause();
+		setIsSaving(true);
+		try {
+			await onUpload(file, { name, icon, trimStart, trimEnd: trimEnd >= duration ? null : trimEnd });
+			reset();
+		} catch (err) {
+			setError(`Couldn’t keep the sound in this browser: ${err instanceof Error ? err.message : String(err)}`);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	if (!file) {
+		return (
+			<div
+				onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+				onDragLeave={() => setIsDragging(false)}
+				onDrop={handleDrop}
+				onClick={() => fileInputRef.current?.click()}
+				className={`p-4 rounded-xl border-2 border-dashed text-center cursor-pointer transition-colors ${isDragging ? 'border-white/60 bg-white/10' : 'border-white/20 hover:border-white/40'}`}
+				role="button"
+				tabIndex={0}
+				onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && fileInputRef.current?.click()}
+			>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept="audio/*"
+					onChange={(e) => { chooseFile(e.target.files?.[0]); e.target.value = ''; }}
+					className="hidden"
+				/>
+				<i className="fa-solid fa-file-arrow-up text-2xl text-white/60 mb-2" />
+				<p className="text-sm text-white/70">Drop your own recording here, or click to choose one</p>
+				<p className="text-xs text-white/40">It stays in this browser</p>
+				{error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+			</div>
+		);
+	}
+
+	return (
+		<div className="p-4 rounded-xl bg-black/20 ring-1 ring-inset ring-white/20 space-y-3 text-sm">
+			<audio
+				ref={audioRef}
+				src={fileUrl ?? undefined}
+				preload="metadata"
+				onLoadedMetadata={handleLoadedMetadata}
+				onTimeUpdate={handleTimeUpdate}
+				onError={() => setError('Your browser can’t play this file.')}
+			/>
+			<div className="flex items-center gap-2">
+				<input
+					type="text"
+					value={name}
+					onChange={(e) => setName(e.target.value)}
+					placeholder="Name this sound"
+					maxLength={40}
+					className="flex-grow px-3 py-2 bg-black/30 rounded-xl ring-1 ring-inset ring-white/20 focus:outline-none focus:ring-white/50"
+					aria-label="Sound name"
+				/>
+				<span className="text-xs text-white/40 truncate max-w-[10rem]" title={file.name}>{file.name}</span>
+			</div>
+
+			<div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Icon">
+				{UPLOAD_ICONS.map(option => (
+					<button
+						key={option}
+						onClick={() => setIcon(option)}
+						className={`w-8 h-8 flex items-center justify-center rounded-lg transition-colors ${icon === option ? 'bg-white/20 ring-1 ring-inset ring-white/50' : 'text-white/60 hover:bg-white/10 hover:text-white'}`}
+						role="radio"
+						aria-checked={icon === option}
+						aria-label={option.replace('fa-solid fa-', '')}
+					>
+						<i className={option} />
+					</button>
+				))}
+			</div>
+
+			{duration !== null && (
+				<div className="space-y-2">
+					<label className="flex items-center gap-3">
+						<span className="w-16 text-white/70">Loop from</span>
+						<input
+							type="range"
+							min={0}
+							max={duration}
+							step={0.1}
+							value={trimStart}
+							onChange={(e) => setTrimStart(Math.min(parseFloat(e.target.value), trimEnd - MIN_LOOP))}
+							className="flex-grow accent-white"
+						/>
+						<span className="w-12 text-right tabular-nums text-white/60">{formatTime(trimStart)}</span>
+					</label>
+					<label className="flex items-center gap-3">
+						<span className="w-16 text-white/70">to</span>
+						<input
+							type="range"
+							min={0}
+							max={duration}
+							step={0.1}
+							value={trimEnd}
+							onChange={(e) => setTrimEnd(Math.max(parseFloat(e.target.value), trimStart + MIN_LOOP))}
+							className="flex-grow accent-white"
+						/>
+						<span className="w-12 text-right tabular-nums text-white/60">{formatTime(trimEnd)}</span>
+					</label>
+				</div>
+			)}
+
+			{error && <p className="text-xs text-red-300">{error}</p>}
+
+			<div className="flex justify-end gap-2">
+				<button onClick={reset} className="px-3 py-1.5 text-xs rounded-lg hover:bg-white/10">Cancel</button>
+				<button
+					onClick={togglePreview}
+					disabled={duration === null}
+					className="px-3 py-1.5 text-xs rounded-lg hover:bg-white/10 disabled:opacity-40"
+				>
+					<i className={`fa-solid ${isPreviewing ? 'fa-stop' : 'fa-play'} mr-1.5`} />
+					{isPreviewing ? 'Stop' : 'Preview loop'}
+				</button>
+				<button
+					onClick={handleSave}
+					disabled={duration === null || isSaving}
+					className="px-3 py-1.5 text-xs font-semibold bg-white/15 rounded-lg hover:bg-white/25 ring-1 ring-inset ring-white/30 disabled:opacity-40"
+				>
+					{isSaving ? 'Saving…' : 'Add sound'}
+				</button>
+			</div>
+		</div>
+	);
+};
+
+export default SoundUpload;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { ToneSettings } from '../types';
+import { DEFAULT_TONE } from '../constants';
+
+interface ToneEditorProps {
+	layerName: string;
+	tone: ToneSettings;
+	onChange: (tone: ToneSettings) => void;
+	onClose: () => void;
+}
+
+const MIN_CUTOFF = 60;
+const MAX_CUTOFF = 18000;
+const EQ_RANGE = 12; // dB either way
+
+// The cutoff slider runs 0..1 on a log scale, so each octave gets the same travel
+const cutoffToPosition = (hz: number) => Math.log(hz / MIN_CUTOFF) / Math.log(MAX_CUTOFF / MIN_CUTOFF);
+const positionToCutoff = (position: number) => Math.round(MIN_CUTOFF * Math.pow(MAX_CUTOFF / MIN_CUTOFF, position));
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}kHz` : `${hz}Hz`);
+const formatDb = (db: number) => `${db > 0 ? '+' : ''}${db.toFixed(1)}dB`;
+
+export const isToneShaped = (tone: ToneSettings | undefined) =>
+	!!tone && (tone.filter !== 'none' || tone.low !== 0 || tone.mid !== 0 || tone.high !== 0);
+
+const ToneEditor: React.FC<ToneEditorProps> = ({ layerName, tone, onChange, onClose }) => {
+	const update = (patch: Partial<ToneSettings>) => onChange({ ...tone, ...patch });
+
+	const bands: { key: 'low' | 'mid' | 'high'; label: string }[] = [
+		{ key: 'low', label: 'Low' },
+		{ key: 'mid', label: 'Mid' },
+		{ key: 'high', label: 'High' },
+	];
+
+	return (
+		<div className="mt-6 p-4 bg-black/20 rounded-xl animate-fade-in-slow">
+			<style>{`.animate-fade-in-slow { animation: fade-in 0.4s ease-out forwards; } @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }`}</style>
+			<div className="flex justify-between items-center mb-3">
+				<h4 className="font-semibold text-white/90">{layerName} · Tone</h4>
+				<div className="flex gap-2">
+					<button
+						onClick={() => onChange(DEFAULT_TONE)}
+						className="px-3 py-1 text-xs rounded-lg hover:bg-white/10 ring-1 ring-inset ring-white/20"
+					>
+						Flat
+					</button>
+					<button
+						onClick={onClose}
+						className="w-7 h-7 flex items-center justify-center rounded-full text-white/60 hover:text-white hover:bg-white/10"
+						aria-label="Close tone controls"
+					>
+						<i className="fa-solid fa-xmark" />
+					</button>
+				</div>
+			</div>
+			<div className="grid gap-3 md:grid-cols-2 text-sm">
+				<div className="space-y-2">
+					<label className="flex items-center justify-between gap-2 text-white/70">
+						Filter
+						<select
+							value={tone.filter}
+							onChange={(e) => update({ filter: e.target.value as ToneSettings['filter'] })}
+							className="px-2 py-1 bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white"
+						>
+							<option value="none">Off</option>
+							<option value="lowpass">Low-pass (muffle)</option>
+							<option value="highpass">High-pass (thin out)</option>
+						</select>
+					</label>
+					<label className={`flex items-center gap-2 text-white/70 ${tone.filter === 'none' ? 'opacity-40' : ''}`}>
+						<span className="w-12">Cutoff</span>
+						<input
+							type="range"
+							min="0"
+							max="1"
+							step="0.005"
+							disabled={tone.filter === 'none'}
+							value={cutoffToPosition(tone.cutoff)}
+							onChange={(e) => update({ cutoff: positionToCutoff(parseFloat(e.target.value)) })}
+							className="flex-grow accent-white"
+						/>
+						<span className="w-16 text-right tabular-nums text-xs">{formatHz(tone.cutoff)}</span>
+					</label>
+				</div>
+				<div className="space-y-2">
+					{bands.map(({ key, label }) => (
+						<label key={key} className="flex items-center gap-2 text-white/70">
+							<span className="w-12">{label}</span>
+							<input
+								type="range"
+								min={-EQ_RANGE}
+								max={EQ_RANGE}
+								step="0.5"
+								value={tone[key]}
+								onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+								onDoubleClick={() => update({ [key]: 0 })}
+								className="flex-grow accent-white"
+							/>
+							<span className="w-16 text-right tabular-nums text-xs">{formatDb(tone[key])}</span>
+						</label>
+					))}
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default ToneEditor;
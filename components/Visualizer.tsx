@@ -0,0 +1,178 @@
+import React, { useRef, useEffect, useState } from 'react';
+
+export type VisualizerMode = 'spectrum' | 'waveform';
+
+interface VisualizerProps {
+	analyser: AnalyserNode | null;
+	isActive: boolean;
+	showMeters: boolean;
+	onToggleMeters: () => void;
+}
+
+const MODE_OPTIONS: { id: VisualizerMode; label: string; icon: string }[] = [
+	{ id: 'spectrum', label: 'Spectrum', icon: 'fa-solid fa-chart-simple' },
+	{ id: 'waveform', label: 'Waveform', icon: 'fa-solid fa-wave-square' }
+];
+
+const BAR_COUNT = 64;
+const MIN_FREQUENCY = 30;
+
+const getInitialMode = (): VisualizerMode => {
+	const stored = localStorage.getItem('etherfields_visualizer_mode');
+	return stored === 'waveform' ? 'waveform' : 'spectrum';
+};
+
+// Sizes the canvas backing store to its CSS box so lines stay crisp on HiDPI screens
+const fitCanvas = (canvas: HTMLCanvasElement) => {
+	const ratio = window.devicePixelRatio || 1;
+	const width = Math.round(canvas.clientWidth * ratio);
+	const height = Math.round(canvas.clientHeight * ratio);
+	if (canvas.width !== width || canvas.height !== height) {
+		canvas.width = width;
+		canvas.height = height;
+	}
+};
+
+const drawSpectrum = (ctx: CanvasRenderingContext2D, analyser: AnalyserNode, data: Uint8Array<ArrayBuffer>) => {
+	const { width, height } = ctx.canvas;
+	analyser.getByteFrequencyData(data);
+
+	// Spread the bars logarithmically so the low end isn't squashed into one bar
+	const nyquist = analyser.context.sampleRate / 2;
+	const binWidth = nyquist / data.length;
+	const gap = width / BAR_COUNT * 0.25;
+	const barWidth = width / BAR_COUNT - gap;
+
+	ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+	for (let i = 0; i < BAR_COUNT; i++) {
+		const lowFreq = MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, i / BAR_COUNT);
+		const highFreq = MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, (i + 1) / BAR_COUNT);
+		const lowBin = Math.floor(lowFreq / binWidth);
+		const highBin = Math.max(lowBin + 1, Math.floor(highFreq / binWidth));
+
+		let peak = 0;
+		for (let bin = lowBin; bin < highBin && bin < data.length; bin++) peak = Math.max(peak, data[bin]);
+
+		const barHeight = Math.max(1, (peak / 255) * height);
+		ctx.fillRect(i * (barWidth + gap) + gap / 2, height - barHeight, barWidth, barHeight);
+	}
+};
+
+const drawWaveform = (ctx: CanvasRenderingContext2D, analyser: AnalyserNode, data: Uint8Array<ArrayBuffer>) => {
+	const { width, height } = ctx.canvas;
+	analyser.getByteTimeDomainData(data);
+
+	ctx.lineWidth = 2 * (window.devicePixelRatio || 1);
+	ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+	ctx.beginPath();
+	const step = width / (data.length - 1);
+	for (let i = 0; i < data.length; i++) {
+		const y = (data[i] / 255) * height;
+		if (i === 0) ctx.moveTo(0, y);
+		else ctx.lineTo(i * step, y);
+	}
+	ctx.stroke();
+};
+
+const Visualizer: React.FC<VisualizerProps> = ({ analyser, isActive, showMeters, onToggleMeters }) => {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const [mode, setMode] = useState<VisualizerMode>(getInitialMode);
+
+	useEffect(() => {
+		localStorage.setItem('etherfields_visualizer_mode', mode);
+	}, [mode]);
+
+	// Drawing loop: only runs while the UI is visible and there is something to draw
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		if (!canvas || !analyser || !isActive) return;
+		const ctx = canvas.getContext('2d');
+		if (!ctx) return;
+
+		const data = new Uint8Array(mode === 'spectrum' ? analyser.frequencyBinCount : analyser.fftSize);
+		let frameId = 0;
+
+		const draw = () => {
+			fitCanvas(canvas);
+			ctx.clearRect(0, 0, canvas.width, canvas.height);
+			if (mode === 'spectrum') drawSpectrum(ctx, analyser, data);
+			else drawWaveform(ctx, analyser, data);
+			frameId = requestAnimationFrame(draw);
+		};
+		frameId = requestAnimationFrame(draw);
+
+		return () => cancelAnimationFrame(frameId);
+	}, [analyser, isActive, mode]);
+
+	return (
+		<div className="mt-6 flex items-center gap-3">
+			<canvas ref={canvasRef} className="flex-grow h-16 rounded-xl bg-black/20" aria-hidden="true" />
+			<div className="flex flex-col gap-1">
+				{MODE_OPTIONS.map(option => (
+					<button
+						key={option.id}
+						onClick={() => setMode(option.id)}
+						className={`w-8 h-8 flex items-center justify-center rounded-full transition-colors ${mode === option.id ? 'bg-white/15 text-white' : 'text-white/50 hover:text-white'}`}
+						aria-label={option.label}
+						title={option.label}
+					>
+						<i className={`${option.icon} text-sm`} />
+					</button>
+				))}
+				<button
+					onClick={onToggleMeters}
+					className={`w-8 h-8 flex items-center justify-center rounded-full transition-colors ${showMeters ? 'bg-white/15 text-white' : 'text-white/50 hover:text-white'}`}
+					aria-label={showMeters ? 'Hide layer meters' : 'Show layer meters'}
+					title={showMeters ? 'Hide layer meters' : 'Show layer meters'}
+				>
+					<i className="fa-solid fa-bars-progress text-sm" />
+				</button>
+			</div>
+		</div>
+	);
+};
+
+interface LevelMeterStripProps {
+	ids: string[]; // Same order as the slider row; 'theme' for the main slider
+	getLevels: () => Record<string, number>;
+	isActive: boolean;
+}
+
+// A row of horizontal meters sized and spaced like the VolumeSlider row above it,
+// so each meter sits under its own slider. Bars are updated outside React.
+export const LevelMeterStrip: React.FC<LevelMeterStripProps> = ({ ids, getLevels, isActive }) => {
+	const barRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+
+	useEffect(() => {
+		if (!isActive) return;
+		let frameId = 0;
+		const update = () => {
+			const levels = getLevels();
+			barRefs.current.forEach((bar, id) => {
+				bar.style.width = `${(levels[id] ?? 0) * 100}%`;
+			});
+			frameId = requestAnimationFrame(update);
+		};
+		frameId = requestAnimationFrame(update);
+		return () => cancelAnimationFrame(frameId);
+	}, [getLevels, isActive]);
+
+	return (
+		<div className="flex flex-row justify-start md:justify-center gap-x-4 md:gap-x-6 -mt-4 mb-6 px-4 md:px-2 min-w-max">
+			{ids.map(id => (
+				<div key={id} className="w-20 h-1.5 rounded-full bg-white/10 overflow-hidden">
+					<div
+						ref={el => {
+							if (el) barRefs.current.set(id, el);
+							else barRefs.current.delete(id);
+						}}
+						className="h-full bg-white/70 rounded-full"
+						style={{ width: '0%' }}
+					/>
+				</div>
+			))}
+		</div>
+	);
+};
+
+export default Visualizer;
@@ -8,6 +8,14 @@ interface VolumeSliderProps {
 	onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
 	isEditing?: boolean;
 	onRemove?: () => void;
+	getLiveValue?: () => number | null; // When set, a marker follows what's actually playing
+	onDragStart?: () => void;
+	onDragEnd?: () => void;
+	onToneClick?: () => void; // Shows a tone button under the label
+	isToneOpen?: boolean;
+	isToneShaped?: boolean;
+	isSelected?: boolean; // Target of the arrow-key shortcuts
+	onSelect?: () => void;
 }
 
 const clamp = (v: number) => Math.max(0, Math.min(1, v));
@@ -18,10 +26,48 @@ const VolumeSlider: React.FC<VolumeSliderProps> = ({
 	value,
 	onChange,
 	isEditing = false,
-	onRemove
+	onRemove,
+	getLiveValue,
+	onDragStart,
+	onDragEnd,
+	onToneClick,
+	isToneOpen = false,
+	isToneShaped = false,
+	isSelected = false,
+	onSelect
 }) => {
 	const trackRef = useRef<HTMLDivElement>(null);
 	const thumbRef = useRef<HTMLDivElement>(null);
+	const liveMarkerRef = useRef<HTMLDivElement>(null);
+
+	// live marker follows the audio every frame, without re-rendering
+	useEffect(() => {
+		if (!getLiveValue) return;
+		let frameId: number;
+		const draw = () => {
+			const live = getLiveValue();
+			if (liveMarkerRef.current) {
+				liveMarkerRef.current.style.opacity = live === null ? '0' : '1';
+				liveMarkerRef.current.style.top = `calc(${100 - clamp(live ?? 0) * 100}% - 1px)`;
+			}
+			frameId = requestAnimationFrame(draw);
+		};
+		draw();
+		return () => cancelAnimationFrame(frameId);
+	}, [getLiveValue]);
+
+	const handlePointerDown = () => {
+		onSelect?.();
+		if (!onDragStart) return;
+		onDragStart();
+		const handlePointerUp = () => {
+			window.removeEventListener('pointerup', handlePointerUp);
+			window.removeEventListener('pointercancel', handlePointerUp);
+			onDragEnd?.();
+		};
+		window.addEventListener('pointerup', handlePointerUp);
+		window.addEventListener('pointercancel', handlePointerUp);
+	};
 
 	// set initial visual position
 	useEffect(() => {
@@ -75,6 +121,16 @@ const VolumeSlider: React.FC<VolumeSliderProps> = ({
 					/>
 				</div>
 
+				{/* live level, when it drifts away from the set point */}
+				{getLiveValue && (
+					<div
+						ref={liveMarkerRef}
+						className="absolute left-1/2 -translate-x-1/2 w-6 h-0.5 rounded-full bg-white/60 pointer-events-none"
+						style={{ opacity: 0 }}
+						aria-hidden="true"
+					/>
+				)}
+
 				{/* our own white circle */}
 				<div
 					ref={thumbRef}
@@ -92,15 +148,28 @@ const VolumeSlider: React.FC<VolumeSliderProps> = ({
 					value={value}
 					onInput={handleInput}
 					onChange={handleInput}
+					onPointerDown={handlePointerDown}
+					onFocus={onSelect}
 					className="absolute inset-0 w-full h-full opacity-0 cursor-pointer [appearance:none] bg-transparent"
 					style={{ WebkitAppearance: 'slider-vertical' } as React.CSSProperties}
 				/>
 			</div>
 
-			<label htmlFor={label} className="text-sm text-white/80 whitespace-nowrap text-center">
+			<label htmlFor={label} className={`text-sm whitespace-nowrap text-center transition-colors ${isSelected ? 'text-white font-semibold underline underline-offset-4 decoration-white/50' : 'text-white/80'}`}>
 				{label}
 			</label>
 
+			{onToneClick && (
+				<button
+					onClick={onToneClick}
+					className={`-mt-2 w-6 h-6 flex items-center justify-center rounded-full transition-colors ${isToneOpen ? 'bg-white/20 text-white' : isToneShaped ? 'text-white' : 'text-white/40 hover:text-white'}`}
+					aria-label={`${label} tone`}
+					title={isToneShaped ? 'Tone (shaped)' : 'Tone'}
+				>
+					<i className="fa-solid fa-sliders text-xs" />
+				</button>
+			)}
+
 			<style>{`
 				/* kill native grey tracks */
 				input[type=range][style*="slider-vertical"]::-webkit-slider-runnable-track {
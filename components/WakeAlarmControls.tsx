@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { MixPreset, Theme, WakeAlarm } from '../types';
+import MixTargetSelect from './MixTargetSelect';
+
+interface WakeAlarmControlsProps {
+	alarm: WakeAlarm; // The armed alarm, or the last one set
+	armedFor: number | null; // epoch ms
+	warning: string | null; // Why it may not ring, when that's known in advance
+	themes: Theme[];
+	presets: MixPreset[];
+	onArm: (alarm: WakeAlarm) => void;
+	onDisarm: () => void;
+}
+
+const RAMP_OPTIONS = [5, 10, 20, 30, 45];
+
+const formatUntil = (ms: number) => {
+	const minutes = Math.max(1, Math.round(ms / 60000));
+	const hours = Math.floor(minutes / 60);
+	return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const WakeAlarmControls: React.FC<WakeAlarmControlsProps> = ({ alarm, armedFor, warning, themes, presets, onArm, onDisarm }) => {
+	const [isOpen, setIsOpen] = useState(false);
+	const [draft, setDraft] = useState<WakeAlarm>(alarm);
+	const [now, setNow] = useState(Date.now());
+
+	useEffect(() => {
+		if (!isOpen) return;
+		setDraft(alarm);
+		const intervalId = window.setInterval(() => setNow(Date.now()), 30000);
+		return () => window.clearInterval(intervalId);
+	}, [isOpen, alarm]);
+
+	const isArmed = armedFor !== null;
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => { setNow(Date.now()); setIsOpen(!isOpen); }}
+				className={`shine-hover flex items-center gap-2 px-4 py-2 text-sm font-semibold backdrop-blur-md rounded-full transition-colors ring-1 ring-inset ring-white/20 hover:ring-white/30 ${isArmed ? 'bg-white/15' : 'bg-white/5 hover:bg-white/15'}`}
+				aria-label="Wake alarm"
+				title="Wake alarm"
+			>
+				<i className="fa-solid fa-clock" />
+				{isArmed && <span className="tabular-nums">{alarm.time}</span>}
+			</button>
+
+			{isOpen && (
+				<div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-72 p-4 bg-gray-900/90 border border-white/20 rounded-2xl shadow-2xl backdrop-blur-2xl z-30">
+					{warning && (
+						<p className="text-xs text-amber-200/90 mb-3">
+							<i className="fa-solid fa-triangle-exclamation mr-1.5" />
+							{warning}
+						</p>
+					)}
+					{isArmed ? (
+						<>
+							<p className="text-sm font-semibold text-center">Waking at {alarm.time}</p>
+							<p className="text-xs text-white/60 text-center mb-3">
+								in {formatUntil(armedFor! - now)}, rising over {alarm.rampMinutes} min
+							</p>
+							<button
+								onClick={() => { onDisarm(); setIsOpen(false); }}
+								className="shine-hover w-full px-4 py-2 text-sm font-semibold bg-white/5 rounded-xl hover:bg-white/15 transition-colors ring-1 ring-inset ring-white/20"
+							>
+								Turn off alarm
+							</button>
+						</>
+					) : (
+						<div className="space-y-2">
+							<p className="text-xs text-white/60 mb-1">Bring a mix up from silence at a set time.</p>
+							<label className="flex items-center justify-between text-xs text-white/60">
+								Wake at
+								<input
+									type="time"
+									value={draft.time}
+									onChange={(e) => e.target.value && setDraft({ ...draft, time: e.target.value })}
+									className="px-2 py-1 text-sm bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white focus:outline-none focus:ring-white/50 [color-scheme:dark]"
+								/>
+							</label>
+							<label className="flex items-center justify-between gap-2 text-xs text-white/60">
+								Sound
+								<MixTargetSelect
+									target={draft.target}
+									themes={themes}
+									presets={presets}
+									onChange={(target) => setDraft({ ...draft, target })}
+								/>
+							</label>
+							<label className="flex items-center justify-between text-xs text-white/60">
+								Rise over
+								<select
+									value={draft.rampMinutes}
+									onChange={(e) => setDraft({ ...draft, rampMinutes: parseInt(e.target.value, 10) })}
+									className="px-2 py-1 bg-black/30 rounded-lg ring-1 ring-inset ring-white/20 text-white"
+								>
+									{RAMP_OPTIONS.map(minutes => (
+										<option key={minutes} value={minutes}>{minutes} min</option>
+									))}
+								</select>
+							</label>
+							<p className="text-xs text-white/50">
+								Leave this tab open and keep the device from sleeping. The sound can be paused or sleep-timed until then.
+							</p>
+							<button
+								onClick={() => { onArm(draft); setIsOpen(false); }}
+								className="shine-hover w-full mt-2 px-4 py-2 text-sm font-semibold bg-white/10 rounded-xl hover:bg-white/20 transition-colors ring-1 ring-inset ring-white/20"
+							>
+								Set alarm
+							</button>
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default WakeAlarmControls;
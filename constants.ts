@@ -1,52 +1,188 @@
-import { Theme, SoundLayer } from './types';
+import { ThemeDefinition, Backdrop, SoundLayer, SpatialConfig, DriftSettings, EventClip, ToneSettings, BinauralSettings, BinauralPreset, PomodoroConfig, WakeAlarm, Vector3 } from './types';
 
-const AUDIO_BASE_URL = 'https://6374686c.github.io/etherfields';
+// Audio paths are relative to an asset source; utils/assetSource.ts picks the
+// source (and the file's exact URL, from the source's manifest) at load time
+
+// Theme beds sit a little in front of the listener and sway slowly.
+const THEME_SPATIAL: SpatialConfig = { position: { x: 0, y: 0, z: -2 }, motion: { type: 'sway', width: 0.8, period: 90 } };
+
+// Noise layers are generated in the browser, so they have no file to fetch.
+// Event layers draw their pools from slices of the same recordings the loops used
+const slices = (starts: number[], duration: number): EventClip[] => starts.map(start => ({ start, duration }));
 
 export const ALL_SOUND_LAYERS: SoundLayer[] = [
-  { id: 'thunder', name: 'Thunder', audioSrc: `${AUDIO_BASE_URL}/audio/layers/thunder.mp3`, icon: 'fa-solid fa-cloud-bolt' },
-  { id: 'rain', name: 'Rain', audioSrc: `${AUDIO_BASE_URL}/audio/layers/rain.mp3`, icon: 'fa-solid fa-cloud-showers-heavy' },
-  { id: 'forest', name: 'Forest', audioSrc: `${AUDIO_BASE_URL}/audio/layers/forest.mp3`, icon: 'fa-solid fa-tree' },
-  { id: 'campfire', name: 'Campfire', audioSrc: `${AUDIO_BASE_URL}/audio/layers/campfire.mp3`, icon: 'fa-solid fa-fire' },
-  { id: 'ocean', name: 'Ocean Waves', audioSrc: `${AUDIO_BASE_URL}/audio/layers/ocean.mp3`, icon: 'fa-solid fa-water' },
-  { id: 'planets', name: 'Planets', audioSrc: `${AUDIO_BASE_URL}/audio/layers/planets.mp3`, icon: 'fa-solid fa-earth-americas' },
-  { id: 'space_debris', name: 'Space Debris', audioSrc: `${AUDIO_BASE_URL}/audio/layers/space_debris.mp3`, icon: 'fa-solid fa-satellite' },
-  { id: 'nasa_chatter', name: 'Nasa Chatter', audioSrc: `${AUDIO_BASE_URL}/audio/layers/nasa_chatter.mp3`, icon: 'fa-solid fa-headset' },
-  { id: 'wind_chimes', name: 'Wind Chimes', audioSrc: `${AUDIO_BASE_URL}/audio/layers/wind_chimes.mp3`, icon: 'fa-solid fa-bell' },
-  { id: 'crickets', name: 'Crickets', audioSrc: `${AUDIO_BASE_URL}/audio/layers/crickets.mp3`, icon: 'fa-solid fa-bug' },
-  { id: 'birds', name: 'Birds', audioSrc: `${AUDIO_BASE_URL}/audio/layers/birds.mp3`, icon: 'fa-solid fa-dove' },
-  { id: 'whales', name: 'Whales', audioSrc: `${AUDIO_BASE_URL}/audio/layers/whales.mp3`, icon: 'fa-solid fa-fish-fins' },
-  { id: 'bubbles', name: 'Bubbles', audioSrc: `${AUDIO_BASE_URL}/audio/layers/bubbles.mp3`, icon: 'fa-solid fa-circle-nodes' },
+  { id: 'thunder', name: 'Thunder', audioSrc: 'audio/layers/thunder.mp3', icon: 'fa-solid fa-cloud-bolt', kind: 'events', events: { clips: slices([0, 9, 18, 27, 36, 45], 8), density: 4, gain: [0.5, 1], pan: 0.7, detune: 150 }, spatial: { position: { x: 0, y: 3, z: -3 }, motion: { type: 'drift', range: 2.5, period: 90 } } },
+  { id: 'rain', name: 'Rain', audioSrc: 'audio/layers/rain.mp3', icon: 'fa-solid fa-cloud-showers-heavy', spatial: { position: { x: 0, y: 1, z: 0 }, motion: { type: 'orbit', radius: 1.5, period: 75 } } },
+  { id: 'forest', name: 'Forest', audioSrc: 'audio/layers/forest.mp3', icon: 'fa-solid fa-tree', spatial: { position: { x: 1.5, y: 0, z: 1 }, motion: { type: 'drift', range: 1.5, period: 120 } } },
+  { id: 'campfire', name: 'Campfire', audioSrc: 'audio/layers/campfire.mp3', icon: 'fa-solid fa-fire', spatial: { position: { x: 0.8, y: -1, z: -1.5 }, motion: { type: 'sway', width: 0.3, period: 20 } } },
+  { id: 'ocean', name: 'Ocean Waves', audioSrc: 'audio/layers/ocean.mp3', icon: 'fa-solid fa-water', spatial: { position: { x: 0, y: -0.5, z: -3 }, motion: { type: 'sway', width: 2.5, period: 30 } } },
+  { id: 'planets', name: 'Planets', audioSrc: 'audio/layers/planets.mp3', icon: 'fa-solid fa-earth-americas', spatial: { position: { x: 0, y: 1.5, z: 0 }, motion: { type: 'orbit', radius: 3, period: 120 } } },
+  { id: 'space_debris', name: 'Space Debris', audioSrc: 'audio/layers/space_debris.mp3', icon: 'fa-solid fa-satellite', spatial: { position: { x: -2, y: 1, z: -2 }, motion: { type: 'drift', range: 3, period: 45 } } },
+  { id: 'nasa_chatter', name: 'Nasa Chatter', audioSrc: 'audio/layers/nasa_chatter.mp3', icon: 'fa-solid fa-headset', spatial: { position: { x: -3, y: 0.5, z: 0.5 } } },
+  { id: 'wind_chimes', name: 'Wind Chimes', audioSrc: 'audio/layers/wind_chimes.mp3', icon: 'fa-solid fa-bell', kind: 'events', events: { clips: slices([0, 5, 10, 15, 20, 25, 30], 4.5), density: 8, gain: [0.4, 1], pan: 0.5, detune: 100 }, spatial: { position: { x: 2.5, y: 2, z: -1 }, motion: { type: 'sway', width: 0.6, period: 12 } } },
+  { id: 'crickets', name: 'Crickets', audioSrc: 'audio/layers/crickets.mp3', icon: 'fa-solid fa-bug', spatial: { position: { x: 0, y: -1, z: 2 }, motion: { type: 'drift', range: 2, period: 60 } } },
+  { id: 'birds', name: 'Birds', audioSrc: 'audio/layers/birds.mp3', icon: 'fa-solid fa-dove', spatial: { position: { x: 0, y: 3, z: 0 }, motion: { type: 'orbit', radius: 2.5, period: 45 } } },
+  { id: 'whales', name: 'Whales', audioSrc: 'audio/layers/whales.mp3', icon: 'fa-solid fa-fish-fins', kind: 'events', events: { clips: slices([0, 8, 16, 24, 32], 7), density: 3, gain: [0.6, 1], pan: 0.8, detune: 200 }, spatial: { position: { x: 0, y: -2.5, z: -2.5 }, motion: { type: 'drift', range: 2.5, period: 80 } } },
+  { id: 'bubbles', name: 'Bubbles', audioSrc: 'audio/layers/bubbles.mp3', icon: 'fa-solid fa-circle-nodes', spatial: { position: { x: 1, y: -1, z: -1 }, motion: { type: 'drift', range: 1.2, period: 25 } } },
+  { id: 'white_noise', name: 'White Noise', audioSrc: '', icon: 'fa-solid fa-wave-square', kind: 'noise', noise: { color: 'white', tilt: -4 } },
+  { id: 'pink_noise', name: 'Pink Noise', audioSrc: '', icon: 'fa-solid fa-wind', kind: 'noise', noise: { color: 'pink', tilt: 0 } },
+  { id: 'brown_noise', name: 'Brown Noise', audioSrc: '', icon: 'fa-solid fa-water-ladder', kind: 'noise', noise: { color: 'brown', tilt: 2 } },
+  { id: 'fan_hum', name: 'Fan Hum', audioSrc: '', icon: 'fa-solid fa-fan', kind: 'noise', noise: { color: 'pink', tilt: -3, cutoff: 700, hum: 48 } },
+  { id: 'brainwaves', name: 'Brainwaves', audioSrc: '', icon: 'fa-solid fa-brain', kind: 'binaural' },
 ];
 
+// Icons offered for the user's own sounds, all from the Font Awesome set the page loads
+export const UPLOAD_ICONS: string[] = [
+  'fa-solid fa-music', 'fa-solid fa-microphone', 'fa-solid fa-fan', 'fa-solid fa-building',
+  'fa-solid fa-city', 'fa-solid fa-mug-hot', 'fa-solid fa-train', 'fa-solid fa-car',
+  'fa-solid fa-plane', 'fa-solid fa-cloud-rain', 'fa-solid fa-wind', 'fa-solid fa-snowflake',
+  'fa-solid fa-leaf', 'fa-solid fa-dove', 'fa-solid fa-cat', 'fa-solid fa-dog',
+  'fa-solid fa-keyboard', 'fa-solid fa-clock', 'fa-solid fa-radio', 'fa-solid fa-guitar',
+  'fa-solid fa-bolt', 'fa-solid fa-water', 'fa-solid fa-moon', 'fa-solid fa-heart',
+];
 
-export const THEMES: Theme[] = [
+
+// Built-in themes, in the same format as theme files (see utils/themeRegistry.ts).
+// Each brings its own backdrop; modulation maps layer volumes onto Vanta options.
+export const BUILT_IN_THEMES: ThemeDefinition[] = [
   {
     id: 'dark-drone',
     name: 'Dark Drone',
-    audioSrc: `${AUDIO_BASE_URL}/audio/themes/dark_drone.mp3`,
-    vantaEffect: 'WAVES',
+    subtitle: 'Immersive dark ambience: resonant engines, cosmic hums, and drifting worlds',
+    font: 'font-orbitron',
+    audioSrc: 'audio/themes/dark_drone.mp3',
     layers: ['planets', 'space_debris', 'nasa_chatter'],
     defaultThemeVolume: 0.7,
     defaultVolumes: { planets: 0.2, space_debris: 0.7, nasa_chatter: 0.4 },
+    spatial: THEME_SPATIAL,
+    environment: { id: 'deep-space', mix: 0.35 },
+    palette: ['planets', 'space_debris', 'nasa_chatter', 'thunder', 'whales'],
+    backdrop: {
+      id: 'WAVES',
+      name: 'Cosmic Waves',
+      description: 'Dark, shimmering waves.',
+      effect: 'WAVES',
+      options: { mouseControls: true, touchControls: true, gyroControls: false, minHeight: 200.00, minWidth: 200.00, scale: 1.00, scaleMobile: 1.00, color: 0x1a0b3c, shininess: 30.00, waveHeight: 15.00, waveSpeed: 0.5, zoom: 0.8 },
+      modulation: [
+        { option: 'turbulence', base: 1.0, add: { thunder: 4.0, space_debris: 2.0 } },
+        { option: 'waveSpeed', base: 0.5, add: { rain: 1.5 } },
+        { option: 'shininess', base: 30.0, add: { nasa_chatter: 50.0 } },
+        { option: 'zoom', base: 0.8, add: { planets: -0.2 } },
+        { option: 'color', base: 0x1a0b3c, blend: [{ layer: 'thunder', color: 0x080414, amount: 1 }, { layer: 'campfire', color: 0x4c0f3b, amount: 0.5 }] },
+      ],
+      artwork: ['#4a2d8c', '#1a0b3c'],
+    },
   },
   {
     id: 'floating-dreaming',
     name: 'Floating / Dreaming',
-    audioSrc: `${AUDIO_BASE_URL}/audio/themes/floating_dreaming.mp3`,
-    vantaEffect: 'CLOUDS',
+    subtitle: 'Ethereal soundscape: gentle waves of air and light to drift, dream, and unwind',
+    font: 'font-dancing-script',
+    audioSrc: 'audio/themes/floating_dreaming.mp3',
     layers: ['thunder', 'rain', 'forest', 'wind_chimes', 'crickets'],
     defaultThemeVolume: 0.7,
     defaultVolumes: { thunder: 0, rain: 0, forest: 0.3, wind_chimes: 0.15, crickets: 0.3 },
+    spatial: THEME_SPATIAL,
+    environment: { id: 'forest', mix: 0.3 },
+    palette: ['rain', 'forest', 'wind_chimes', 'crickets', 'birds', 'ocean', 'bubbles'],
+    backdrop: {
+      id: 'CLOUDS',
+      name: 'Dream Clouds',
+      description: 'Gentle, colorful clouds.',
+      effect: 'CLOUDS',
+      options: { mouseControls: true, touchControls: true, gyroControls: false, minHeight: 200.00, minWidth: 200.00, skyColor: 0x2d1a59, cloudColor: 0x8a7fb0, cloudShadowColor: 0x2b1e4a, sunColor: 0xe072b0, sunGlareColor: 0xff4dba, sunlightColor: 0xff61c4, speed: 0.5 },
+      modulation: [
+        { option: 'speed', base: 0.5, add: { rain: 1.0, wind_chimes: 0.5 } },
+        { option: 'skyColor', base: 0x2d1a59, blend: [{ layer: 'forest', color: 0x1a3a59, amount: 0.6 }] },
+        { option: 'cloudShadowColor', base: 0x2b1e4a, blend: [{ layer: 'thunder', color: 0x100c1f, amount: 1 }] },
+        { option: 'cloudColor', base: 0x8a7fb0, blend: [{ layer: 'rain', color: 0x6b628a, amount: 1 }] },
+        { option: 'sunColor', base: 0xe072b0, blend: [{ layer: 'crickets', color: 0xffa500, amount: 0.5 }] },
+      ],
+      artwork: ['#e072b0', '#2d1a59'],
+    },
   },
   {
     id: 'focus-meditation',
     name: 'Focus / Meditation',
-    audioSrc: `${AUDIO_BASE_URL}/audio/themes/focus_meditation.mp3`,
-    vantaEffect: 'HALO',
-    layers: ['whales', 'bubbles'],
+    subtitle: 'Calm tonal flow: minimal textures and slow pulses to deepen focus and stillness',
+    font: 'font-josefin-sans',
+    audioSrc: 'audio/themes/focus_meditation.mp3',
+    layers: ['whales', 'bubbles', 'brainwaves'],
     defaultThemeVolume: 0.7,
-    defaultVolumes: { whales: 0.5, bubbles: 0.7 },
+    defaultVolumes: { whales: 0.5, bubbles: 0.7, brainwaves: 0 },
+    spatial: THEME_SPATIAL,
+    environment: { id: 'cathedral', mix: 0.25 },
+    palette: ['whales', 'bubbles', 'wind_chimes', 'ocean', 'rain'],
+    backdrop: {
+      id: 'HALO',
+      name: 'Aura Borealis',
+      description: 'Minimalist glowing rings.',
+      effect: 'HALO',
+      options: { mouseControls: true, touchControls: true, gyroControls: false, minHeight: 200.00, minWidth: 200.00, amplitudeFactor: 1.0, xOffset: 0.05, yOffset: 0.05, size: 1.0, backgroundColor: 0x0c112a, baseColor: 0x3d82a7 },
+      modulation: [
+        { option: 'amplitudeFactor', base: 1.0, add: { birds: 2.0, bubbles: 1.0 } },
+        { option: 'yOffset', base: 0.05, add: { thunder: 0.2, whales: 0.1 } },
+        { option: 'xOffset', base: 0.05, add: { rain: 0.15, bubbles: 0.1 } },
+        { option: 'size', base: 1.0, add: { whales: 0.75, bubbles: -0.3 } },
+        { option: 'baseColor', base: 0x3d82a7, blend: [{ layer: 'birds', color: 0x6eb1d1, amount: 1 }] },
+      ],
+      artwork: ['#3d82a7', '#0c112a'],
+    },
+  },
+];
+
+// Backdrops no theme brings, for custom mixes. These keep their colours whatever plays.
+export const BUILT_IN_BACKDROPS: Backdrop[] = [
+  {
+    id: 'FOG',
+    name: 'Mystic Fog',
+    description: 'Subtle, flowing mist.',
+    effect: 'FOG',
+    options: { mouseControls: true, touchControls: true, gyroControls: false, minHeight: 200.00, minWidth: 200.00, highlightColor: 0xc5c5c5, midtoneColor: 0x48556e, lowlightColor: 0x222633, baseColor: 0x1a1f29, blurFactor: 0.60, speed: 1.20, zoom: 0.80 },
+    modulation: [],
+    artwork: ['#c5c5c5', '#48556e'],
+  },
+  {
+    id: 'CLOUDS2',
+    name: 'Daylight Clouds',
+    description: 'Bright sky, warm sun.',
+    effect: 'CLOUDS2',
+    options: { mouseControls: true, touchControls: true, gyroControls: false, skyColor: 0x68b8d7, cloudColor: 0xadc1d5, cloudShadowColor: 0x183550, sunColor: 0xff9919, sunGlareColor: 0xff6633, sunlightColor: 0xff9933, speed: 1.00 },
+    modulation: [],
+    artwork: ['#ff9919', '#183550'],
+    hidden: true,
   },
 ];
 
-export const FADE_TIME = 4.5; // seconds for crossfading
\ No newline at end of file
+export const CUSTOM_THEME_ID = 'custom';
+
+export const FADE_TIME = 4.5; // seconds for crossfading
+
+export const STAGE_RADIUS = 6; // Metres from the listener to the edge of the sound stage
+
+// Whether a position is within the stage, give or take the rounding of saved and shared positions
+export const isOnStage = ({ x, y, z }: Vector3) => Math.hypot(x, z) <= STAGE_RADIUS + 0.01 && Math.abs(y) <= STAGE_RADIUS;
+
+export const DEFAULT_TONE: ToneSettings = { filter: 'none', cutoff: 1000, low: 0, mid: 0, high: 0 };
+
+export const DEFAULT_DRIFT_SETTINGS: DriftSettings = { depth: 0.2, rate: 1, shape: 'walk' };
+
+export const BINAURAL_PRESETS: BinauralPreset[] = [
+  { id: 'delta', name: 'Delta', description: 'Deep sleep', carrier: 120, beat: 2 },
+  { id: 'theta', name: 'Theta', description: 'Meditation, drifting off', carrier: 180, beat: 6 },
+  { id: 'alpha', name: 'Alpha', description: 'Calm, relaxed focus', carrier: 220, beat: 10 },
+  { id: 'beta', name: 'Beta', description: 'Alert concentration', carrier: 260, beat: 18 },
+];
+
+export const DEFAULT_BINAURAL_SETTINGS: BinauralSettings = { mode: 'binaural', carrier: 220, beat: 10, glide: null };
+
+export const DEFAULT_POMODORO_CONFIG: PomodoroConfig = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  cycles: 4,
+  work: { type: 'theme', themeId: 'focus-meditation' },
+  break: { type: 'theme', themeId: 'floating-dreaming' },
+  chime: true,
+};
+
+export const DEFAULT_WAKE_ALARM: WakeAlarm = { time: '07:00', target: null, rampMinutes: 20 };
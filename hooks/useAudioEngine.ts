@@ -1,6 +1,18 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { Theme, SoundLayer } from '../types';
-import { FADE_TIME, ALL_SOUND_LAYERS } from '../constants';
+import { Theme, SoundLayer, UploadLayerConfig, AssetProgress, Automation, DriftSettings, ToneSettings, EnvironmentSetting, SpatialConfig, Vector3, BinauralSettings } from '../types';
+import { FADE_TIME, ALL_SOUND_LAYERS, DEFAULT_BINAURAL_SETTINGS } from '../constants';
+import { SpatialPanner } from '../audio/SpatialPanner';
+import { LoopingPlayer } from '../audio/LoopingPlayer';
+import { EventPlayer, LoadedClip, clipSources, sliceClips } from '../audio/EventPlayer';
+import { NoisePlayer } from '../audio/NoisePlayer';
+import { BinauralPlayer } from '../audio/BinauralPlayer';
+import { renderMix, MixRenderSource } from '../audio/renderMix';
+import { AutomationPlayer, THEME_LANE_ID } from '../audio/automation';
+import { DriftModulator } from '../audio/DriftModulator';
+import { ReverbBus, DRY_ENVIRONMENT } from '../audio/reverb';
+import { playChime } from '../audio/chime';
+import { fetchAsset, themeAsset, layerAsset, clipAsset } from '../utils/assetSource';
+import { readUploadFile } from '../utils/uploadStore';
 
 export enum AudioState {
   Suspended,
@@ -8,82 +20,39 @@ export enum AudioState {
   Closed,
 }
 
-// --- High-Precision Looping Player ---
-// This class implements a robust scheduling pattern (often called the "metronome pattern")
-// to create seamless audio loops by scheduling playback slightly ahead of time.
-// It overcomes the gaps inherent in some audio files (like MP3s) when using `loop=true`.
-const OVERLAP_DURATION = 0.1; // 100ms overlap to cover potential gaps
+const PROGRESS_INTERVAL = 100; // ms between download progress renders
 
-class LoopingPlayer {
-  private context: AudioContext;
-  private buffer: AudioBuffer;
-  private gainNode: GainNode;
-  
-  private isPlaying = false;
-  private nextNoteTime = 0.0;
-  private timerId: number | undefined;
-
-  // Scheduling configuration
-  private lookahead = 25.0; // How often we wake up to schedule (ms)
-  private scheduleAheadTime = 0.1; // How far ahead to schedule audio (s)
-
-  constructor(context: AudioContext, buffer: AudioBuffer, initialGain: number) {
-    this.context = context;
-    this.buffer = buffer;
-    this.gainNode = context.createGain();
-    this.gainNode.gain.value = initialGain;
-  }
-
-  connect(destination: AudioNode) {
-    this.gainNode.connect(destination);
-  }
-
-  disconnect() {
-    this.gainNode.disconnect();
-  }
-
-  get gain() {
-      return this.gainNode.gain;
-  }
-
-  private scheduler = () => {
-    if (!this.isPlaying) return;
-
-    // Schedule notes that will need to play before the next interval
-    while (this.nextNoteTime < this.context.currentTime + this.scheduleAheadTime) {
-      this.scheduleNote(this.nextNoteTime);
-      this.nextNoteTime += this.buffer.duration - OVERLAP_DURATION;
-    }
-    
-    this.timerId = window.setTimeout(this.scheduler, this.lookahead);
-  }
-
-  private scheduleNote = (time: number) => {
-    if (!this.isPlaying) return;
-    const source = this.context.createBufferSource();
-    source.buffer = this.buffer;
-    source.connect(this.gainNode);
-    source.start(time);
-  }
-
-  start() {
-    if (this.isPlaying || this.buffer.duration <= OVERLAP_DURATION) return;
-    this.isPlaying = true;
-    this.nextNoteTime = this.context.currentTime + 0.1; // Start with a small delay
-    this.scheduler();
-  }
-
-  stop() {
-    this.isPlaying = false;
-    if (this.timerId) {
-      window.clearTimeout(this.timerId);
-      this.timerId = undefined;
-    }
-  }
+// The context reports its state as a string; Safari adds 'interrupted' (a phone
+// call, another app taking the audio), which is as good as suspended here
+const toAudioState = (state: string): AudioState => {
+  if (state === 'running') return AudioState.Running;
+  if (state === 'closed') return AudioState.Closed;
+  return AudioState.Suspended;
+};
+
+
+export interface MixExportOptions {
+  duration: number; // seconds
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+  themeVolume: number;
+  stems: boolean; // Also render each source on its own (stems stay dry)
 }
 
-// --- End of Looping Player ---
+export interface RenderedTrack {
+  id: string; // 'mix' for the full mix, otherwise the theme or layer id
+  name: string;
+  buffer: AudioBuffer;
+}
 
+// What the OS media overlay shows, and where its next/previous buttons go
+export interface MediaSessionInfo {
+  title: string;
+  subtitle: string;
+  artwork?: string; // Image URL
+  onNext: () => void;
+  onPrevious: () => void;
+}
 
 interface UseAudioEngineProps {
   themes: Theme[];
@@ -93,34 +62,164 @@ interface UseAudioEngineProps {
   initialMainVolume: number;
 }
 
-// Helper to create a silent audio buffer as a fallback
-const createSilentAudioBuffer = (context: AudioContext, duration: number): AudioBuffer => {
-    const sampleRate = context.sampleRate;
-    const frameCount = sampleRate * duration;
-    const buffer = context.createBuffer(1, frameCount, sampleRate);
-    return buffer;
+type LayerPlayer = LoopingPlayer | EventPlayer | NoisePlayer | BinauralPlayer;
+
+// Layers without a spatial config of their own sit just in front of the listener
+const DEFAULT_LAYER_SPATIAL: SpatialConfig = { position: { x: 0, y: 0, z: -1 } };
+
+// Converts an RMS amplitude into a 0..1 meter reading over a 60dB range
+const METER_FLOOR_DB = -60;
+const rmsToMeterLevel = (rms: number): number => {
+    if (rms <= 0) return 0;
+    const db = 20 * Math.log10(rms);
+    return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+};
+
+// A fade to silence that drops evenly in decibels (so it doesn't sound like it
+// stalls, then vanishes at the end): -60dB by the end, then true silence.
+// Reversed, it's a fade in that rises just as evenly.
+const decibelFadeCurve = (level: number, duration: number): Float32Array => {
+    const pointCount = Math.max(2, Math.min(1000, Math.round(duration)));
+    const curve = new Float32Array(pointCount);
+    for (let i = 0; i < pointCount; i++) {
+        const t = i / (pointCount - 1);
+        curve[i] = level * Math.pow(10, -3 * t) * (1 - t);
+    }
+    return curve;
 };
 
+// How long a resume may take before we assume the browser is holding it back
+// (autoplay policy leaves the promise pending until the page is interacted with)
+const RESUME_TIMEOUT = 2000; // ms
+
+const PAUSE_FADE = FADE_TIME / 2; // s, fade out before a pause suspends everything
+
+const AUTOMATION_END_POLL = 1; // s, shortest wait between checks for a one-shot timeline's end
+
+const TRIM_FADE = 0.05; // s, softens the cut at each end of a trimmed upload
+
+// Cuts an upload down to its trim points so the loop runs over just that part.
+// The cuts land mid-sound, so each end gets a short fade.
+const trimBuffer = (context: BaseAudioContext, buffer: AudioBuffer, { trimStart, trimEnd }: UploadLayerConfig): AudioBuffer => {
+    const start = Math.max(0, Math.round(trimStart * buffer.sampleRate));
+    const end = trimEnd === null ? buffer.length : Math.min(buffer.length, Math.round(trimEnd * buffer.sampleRate));
+    if (end - start <= 0 || (start === 0 && end === buffer.length)) return buffer;
+
+    const trimmed = context.createBuffer(buffer.numberOfChannels, end - start, buffer.sampleRate);
+    const fadeLength = Math.min(Math.round(TRIM_FADE * buffer.sampleRate), Math.floor(trimmed.length / 2));
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const samples = buffer.getChannelData(channel).slice(start, end);
+        for (let i = 0; i < fadeLength; i++) {
+            samples[i] *= i / fadeLength;
+            samples[samples.length - 1 - i] *= i / fadeLength;
+        }
+        trimmed.copyToChannel(samples, channel);
+    }
+    return trimmed;
+};
+
+const hasMediaSession = typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+const createPendingAsset = (id: string, kind: AssetProgress['kind'], name: string): AssetProgress => ({
+    id, kind, name, loaded: 0, total: null, status: 'pending',
+});
+
 export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolumes, initialMainVolume }: UseAudioEngineProps) => {
   const audioContextRef = useRef<AudioContext | null>(null);
   const masterGainRef = useRef<GainNode | null>(null);
+  const reverbBusRef = useRef<ReverbBus | null>(null);
+  const environmentRef = useRef<EnvironmentSetting>(DRY_ENVIRONMENT); // Applied when the bus is built
   
   // State for Layers (Web Audio API)
-  const layerPlayersRef = useRef<Map<string, LoopingPlayer>>(new Map());
+  const layerPlayersRef = useRef<Map<string, LayerPlayer>>(new Map());
   const layerAudioBuffersRef = useRef<Map<string, AudioBuffer>>(new Map());
+  const layerClipsRef = useRef<Map<string, LoadedClip[]>>(new Map()); // Pools of event layers
+  const layerTonesRef = useRef<Map<string, ToneSettings>>(new Map()); // Outlives players, like drift settings
+  const layerPositionsRef = useRef<Map<string, Vector3>>(new Map()); // Placements from the sound stage
+  const layerPannersRef = useRef<Map<string, SpatialPanner>>(new Map());
+  const layerIdsRef = useRef<Set<string>>(new Set()); // Every layer handed to the engine, loaded or not
+  const binauralSettingsRef = useRef<BinauralSettings>(DEFAULT_BINAURAL_SETTINGS); // Shared by every binaural layer
+
+  // Metering taps (analysers are pull nodes, so they need no output connection)
+  const levelAnalysersRef = useRef<Map<string, AnalyserNode>>(new Map());
+  const levelSampleBufferRef = useRef<Float32Array>(new Float32Array(256));
   
   // State for Themes (HTML5 Audio streaming via Web Audio API)
   const themeAudioElementsRef = useRef<Map<string, HTMLAudioElement>>(new Map());
   const themeGainNodesRef = useRef<Map<string, GainNode>>(new Map());
+  const themePannersRef = useRef<Map<string, SpatialPanner>>(new Map());
+  const themeObjectUrlsRef = useRef<Map<string, string>>(new Map());
+  const themeBlobsRef = useRef<Map<string, Blob>>(new Map()); // Kept for offline rendering
+
+  const hasStartedRef = useRef(false);
+
+  // Automation timeline
+  const automationPlayerRef = useRef<AutomationPlayer | null>(null);
+  const automationEndTimerRef = useRef<number | null>(null);
+
+  // Drift ("alive" mode). Settings outlive modulators so late-loading layers pick them up.
+  const driftSettingsRef = useRef<Map<string, DriftSettings>>(new Map());
+  const driftModulatorsRef = useRef<Map<string, DriftModulator>>(new Map());
+  const driftPausedRef = useRef<Set<string>>(new Set());
+
+  const pauseTimerRef = useRef<number | null>(null); // A pause waiting for its fade-out
+
+  // Media Session: the latest info from the app, read when the OS calls back
+  const mediaInfoRef = useRef<MediaSessionInfo | null>(null);
 
   const [isInitialized, setIsInitialized] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [audioState, setAudioState] = useState<AudioState>(AudioState.Suspended);
+  const [isPausing, setIsPausing] = useState(false);
   const [activeThemeId, setActiveThemeId] = useState(initialThemeId);
   const [currentVolumes, setCurrentVolumes] = useState(initialVolumes);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [assets, setAssets] = useState<Record<string, AssetProgress>>({});
+  const pendingAssetPatchesRef = useRef<Map<string, Partial<AssetProgress>>>(new Map());
+  const assetFlushTimerRef = useRef<number | null>(null);
+  const [isAutomationPlaying, setIsAutomationPlaying] = useState(false);
+
+  // Mirrors currentVolumes for players created after the initial load
+  const currentVolumesRef = useRef(currentVolumes);
+  useEffect(() => {
+    currentVolumesRef.current = currentVolumes;
+  }, [currentVolumes]);
+
+  // Layers added after the start (uploads) have no volume of their own yet: they take the app's
+  const initialVolumesRef = useRef(initialVolumes);
+  useEffect(() => {
+    initialVolumesRef.current = initialVolumes;
+  }, [initialVolumes]);
+
+  // Themes registered late are set up against whichever theme is playing by then, at the mix's volume
+  const activeThemeIdRef = useRef(activeThemeId);
+  const initialMainVolumeRef = useRef(initialMainVolume);
+  useEffect(() => {
+    activeThemeIdRef.current = activeThemeId;
+    initialMainVolumeRef.current = initialMainVolume;
+  }, [activeThemeId, initialMainVolume]);
 
   const cleanupAudio = useCallback(() => {
+    // Cleanup automation
+    automationPlayerRef.current?.stop();
+    automationPlayerRef.current = null;
+    if (automationEndTimerRef.current !== null) window.clearTimeout(automationEndTimerRef.current);
+    automationEndTimerRef.current = null;
+    setIsAutomationPlaying(false);
+
+    if (pauseTimerRef.current !== null) window.clearTimeout(pauseTimerRef.current);
+    pauseTimerRef.current = null;
+    setIsPausing(false);
+
+    if (assetFlushTimerRef.current !== null) window.clearTimeout(assetFlushTimerRef.current);
+    assetFlushTimerRef.current = null;
+    pendingAssetPatchesRef.current.clear();
+
+    // Cleanup drift
+    driftModulatorsRef.current.forEach(modulator => modulator.stop());
+    driftModulatorsRef.current.clear();
+
     // Cleanup layers
     layerPlayersRef.current.forEach(player => {
         player.stop();
@@ -128,6 +227,10 @@ export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolum
     });
     layerPlayersRef.current.clear();
     layerAudioBuffersRef.current.clear();
+    layerClipsRef.current.clear();
+    layerPannersRef.current.forEach(panner => panner.dispose());
+    layerPannersRef.current.clear();
+    layerIdsRef.current.clear();
 
     // Cleanup themes
     themeAudioElementsRef.current.forEach(audioEl => {
@@ -135,7 +238,14 @@ export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolum
         audioEl.src = '';
     });
     themeAudioElementsRef.current.clear();
+    themeObjectUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    themeObjectUrlsRef.current.clear();
+    themeBlobsRef.current.clear();
     themeGainNodesRef.current.clear();
+    themePannersRef.current.forEach(panner => panner.dispose());
+    themePannersRef.current.clear();
+    levelAnalysersRef.current.clear();
+    setAnalyser(null);
 
     // Cleanup context
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
@@ -145,9 +255,34 @@ export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolum
     }
     audioContextRef.current = null;
     masterGainRef.current = null;
+    reverbBusRef.current = null;
+    hasStartedRef.current = false;
     setIsInitialized(false);
   }, []);
 
+  const createLevelAnalyser = (context: AudioContext, id: string): AnalyserNode => {
+    const levelAnalyser = context.createAnalyser();
+    levelAnalyser.fftSize = levelSampleBufferRef.current.length;
+    levelAnalysersRef.current.set(id, levelAnalyser);
+    return levelAnalyser;
+  };
+
+  // Reads the current level of every layer (and of the playing theme under the
+  // 'theme' key) as 0..1 meter values. Cheap enough to call every frame.
+  const getLevels = useCallback((): Record<string, number> => {
+    const levels: Record<string, number> = {};
+    const samples = levelSampleBufferRef.current;
+    levelAnalysersRef.current.forEach((levelAnalyser, id) => {
+      levelAnalyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      const level = rmsToMeterLevel(Math.sqrt(sum / samples.length));
+      if (id === activeThemeId) levels.theme = level;
+      levels[id] = level;
+    });
+    return levels;
+  }, [activeThemeId]);
+
   const selectTheme = useCallback((themeId: string, targetVolume: number) => {
     const context = audioContextRef.current;
     if (!context || themeId === activeThemeId) {
@@ -176,94 +311,332 @@ export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolum
     setActiveThemeId(themeId);
   }, [activeThemeId]);
 
+  // Applies every queued asset change in one render
+  const flushAssetUpdates = useCallback(() => {
+    if (assetFlushTimerRef.current !== null) window.clearTimeout(assetFlushTimerRef.current);
+    assetFlushTimerRef.current = null;
+    const patches = Array.from<[string, Partial<AssetProgress>]>(pendingAssetPatchesRef.current.entries());
+    pendingAssetPatchesRef.current.clear();
+    if (patches.length === 0) return;
+    setAssets(prev => patches.reduce(
+      (next, [id, patch]) => next[id] ? { ...next, [id]: { ...next[id], ...patch } } : next,
+      prev
+    ));
+  }, []);
+
+  // Byte counts arrive with every network chunk, for every download at once, so
+  // they're queued and shown at most every PROGRESS_INTERVAL. Status changes show
+  // straight away.
+  const updateAsset = useCallback((id: string, patch: Partial<AssetProgress>) => {
+    const pending = pendingAssetPatchesRef.current;
+    pending.set(id, { ...pending.get(id), ...patch });
+    if ('status' in patch) {
+      flushAssetUpdates();
+    } else if (assetFlushTimerRef.current === null) {
+      assetFlushTimerRef.current = window.setTimeout(flushAssetUpdates, PROGRESS_INTERVAL);
+    }
+  }, [flushAssetUpdates]);
+
+  // A layer's spatial config, moved to wherever it was placed on the stage
+  const getLayerSpatial = (layer: SoundLayer): SpatialConfig => {
+    const spatial = layer.spatial ?? DEFAULT_LAYER_SPATIAL;
+    const position = layerPositionsRef.current.get(layer.id);
+    return position ? { ...spatial, position } : spatial;
+  };
+
+  // Builds the player chain for a layer (a decoded loop buffer, an event layer's clip
+  // pool, or nothing for generated layers) and starts it. Layers that finish loading
+  // after playback has begun simply join the mix at their current volume.
+  const createLayerPlayer = useCallback((context: AudioContext, layer: SoundLayer, audio?: AudioBuffer | LoadedClip[]) => {
+    const masterGain = masterGainRef.current;
+    if (!masterGain || layerPlayersRef.current.has(layer.id)) return;
+
+    const initialGainValue = currentVolumesRef.current[layer.id] ?? initialVolumesRef.current[layer.id] ?? 0;
+    const tone = layerTonesRef.current.get(layer.id);
+    const player: LayerPlayer = layer.kind === 'binaural'
+        ? new BinauralPlayer(context, binauralSettingsRef.current, initialGainValue, tone)
+        : layer.kind === 'noise'
+            ? new NoisePlayer(context, layer.noise!, initialGainValue, tone)
+            : Array.isArray(audio)
+                ? new EventPlayer(context, audio, layer.events!, initialGainValue, tone)
+                : new LoopingPlayer(context, audio!, initialGainValue, tone);
+    if (layer.kind === 'binaural') {
+        player.connect(masterGain); // A panner would blend the two ears back together
+    } else {
+        const panner = new SpatialPanner(context, getLayerSpatial(layer));
+        player.connect(panner.input);
+        panner.connect(masterGain);
+        layerPannersRef.current.set(layer.id, panner);
+    }
+    player.connect(createLevelAnalyser(context, layer.id));
+    player.start();
+    layerPlayersRef.current.set(layer.id, player);
+
+    const driftSettings = driftSettingsRef.current.get(layer.id);
+    if (driftSettings) {
+        const modulator = new DriftModulator(context, player.modulation, driftSettings);
+        driftModulatorsRef.current.set(layer.id, modulator);
+        if (!driftPausedRef.current.has(layer.id)) modulator.start();
+    }
+  }, []);
+
+  // Fetches every file an event layer's pool draws from, reporting their combined progress
+  const loadEventClips = useCallback(async (context: AudioContext, layer: SoundLayer): Promise<LoadedClip[]> => {
+    const sources = clipSources(layer);
+    const progress = sources.map(() => ({ loaded: 0, total: null as number | null }));
+    const report = () => {
+        const loaded = progress.reduce((sum, p) => sum + p.loaded, 0);
+        const total = progress.every(p => p.total !== null) ? progress.reduce((sum, p) => sum + p.total!, 0) : null;
+        updateAsset(layer.id, { loaded, total });
+    };
+
+    const buffers = new Map<string, AudioBuffer>();
+    await Promise.all(sources.map(async (src, i) => {
+        const data = await fetchAsset(clipAsset(layer, src), (loaded, total) => {
+            progress[i] = { loaded, total };
+            report();
+        });
+        buffers.set(src, await context.decodeAudioData(data));
+    }));
+    return sliceClips(layer, buffers);
+  }, [updateAsset]);
+
+  const loadLayer = useCallback(async (context: AudioContext, layer: SoundLayer) => {
+    updateAsset(layer.id, { status: 'loading', loaded: 0, error: undefined });
+    try {
+        if (layer.kind === 'noise' || layer.kind === 'binaural') {
+            createLayerPlayer(context, layer); // Generated here: nothing to fetch
+            updateAsset(layer.id, { status: 'ready' });
+            return;
+        }
+
+        if (layer.kind === 'events' && layer.events) {
+            const clips = await loadEventClips(context, layer);
+            if (audioContextRef.current !== context) return; // Torn down while loading
+            if (clips.length === 0) throw new Error('No usable clips in the event pool');
+
+            layerClipsRef.current.set(layer.id, clips);
+            createLayerPlayer(context, layer, clips);
+            updateAsset(layer.id, { status: 'ready' });
+            return;
+        }
+
+        let data: ArrayBuffer;
+        if (layer.kind === 'upload') {
+            const file = await readUploadFile(layer.id); // Kept in the browser: nothing to download
+            if (!file) throw new Error('The uploaded file is no longer stored in this browser');
+            updateAsset(layer.id, { loaded: file.size, total: file.size });
+            data = await file.arrayBuffer();
+        } else {
+            data = await fetchAsset(layerAsset(layer), (loaded, total) => updateAsset(layer.id, { loaded, total }));
+        }
+        const decoded = await context.decodeAudioData(data);
+        const decodedData = layer.upload ? trimBuffer(context, decoded, layer.upload) : decoded;
+        if (audioContextRef.current !== context || !layerIdsRef.current.has(layer.id)) return; // Torn down or removed while loading
+
+        layerAudioBuffersRef.current.set(layer.id, decodedData);
+        createLayerPlayer(context, layer, decodedData);
+        updateAsset(layer.id, { status: 'ready' });
+    } catch (err) {
+        console.warn(`Could not load or decode audio for "${layer.name}" from ${layer.upload?.fileName ?? layer.audioSrc}. Error:`, err);
+        updateAsset(layer.id, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+    }
+  }, [createLayerPlayer, loadEventClips, updateAsset]);
+
+  // Themes are downloaded whole so their progress can be shown, then handed to
+  // their media element as a blob URL which it loops from memory.
+  const loadTheme = useCallback(async (theme: Theme) => {
+    const audioEl = themeAudioElementsRef.current.get(theme.id);
+    if (!audioEl) return;
+
+    updateAsset(theme.id, { status: 'loading', loaded: 0, error: undefined });
+    try {
+        const data = await fetchAsset(themeAsset(theme), (loaded, total) => updateAsset(theme.id, { loaded, total }));
+        if (themeAudioElementsRef.current.get(theme.id) !== audioEl) return; // Torn down while loading
+
+        const blob = new Blob([data], { type: 'audio/mpeg' });
+        const objectUrl = URL.createObjectURL(blob);
+        themeBlobsRef.current.set(theme.id, blob);
+        themeObjectUrlsRef.current.set(theme.id, objectUrl);
+        audioEl.src = objectUrl;
+        if (hasStartedRef.current) {
+            audioEl.play().catch(e => console.warn(`Theme "${theme.name}" could not be autoplayed:`, e));
+        }
+        updateAsset(theme.id, { status: 'ready' });
+    } catch (err) {
+        console.warn(`Could not load audio for theme "${theme.name}" from ${theme.audioSrc}. Error:`, err);
+        updateAsset(theme.id, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+    }
+  }, [updateAsset]);
+
+  // Starts the theme streams and fades the mix in. Runs once: either when every
+  // asset has settled, or earlier if the user chooses to start with what's ready.
+  const startPlayback = useCallback(() => {
+    const context = audioContextRef.current;
+    const masterGain = masterGainRef.current;
+    if (!context || !masterGain || hasStartedRef.current) return;
+    hasStartedRef.current = true;
+
+    // Start all theme audio elements that have data. Only the active one has volume.
+    themeAudioElementsRef.current.forEach((el, themeId) => {
+        if (!themeObjectUrlsRef.current.has(themeId)) return;
+        el.play().catch(e => console.warn("Some themes could not be autoplayed:", e));
+    });
+
+    // Fade in master volume for a smooth start
+    masterGain.gain.setValueAtTime(0, context.currentTime);
+    masterGain.gain.linearRampToValueAtTime(1.0, context.currentTime + FADE_TIME);
+
+    setIsLoading(false);
+    setIsInitialized(true);
+  }, []);
+
+  // Gives a theme its media element and gain stage; the source is attached once downloaded
+  const setupTheme = useCallback((context: AudioContext, masterGain: GainNode, theme: Theme, initialGain: number) => {
+    const audioEl = new Audio();
+    audioEl.crossOrigin = "anonymous";
+    audioEl.loop = true;
+    themeAudioElementsRef.current.set(theme.id, audioEl);
+
+    const sourceNode = context.createMediaElementSource(audioEl);
+    const gainNode = context.createGain();
+    gainNode.gain.value = initialGain;
+
+    sourceNode.connect(gainNode);
+    if (theme.spatial) {
+        const panner = new SpatialPanner(context, theme.spatial);
+        gainNode.connect(panner.input);
+        panner.connect(masterGain);
+        themePannersRef.current.set(theme.id, panner);
+    } else {
+        gainNode.connect(masterGain);
+    }
+    themeGainNodesRef.current.set(theme.id, gainNode);
+    gainNode.connect(createLevelAnalyser(context, theme.id));
+  }, []);
+
+  const retryAsset = useCallback((id: string) => {
+    const context = audioContextRef.current;
+    if (!context) return;
+
+    const theme = themes.find(t => t.id === id);
+    if (theme) {
+        loadTheme(theme);
+        return;
+    }
+    const layer = allLayers.find(l => l.id === id);
+    if (layer) loadLayer(context, layer);
+  }, [themes, allLayers, loadTheme, loadLayer]);
+
   const initializeAudio = useCallback(async () => {
     if (isInitialized) return;
     
     const context = new (window.AudioContext || (window as any).webkitAudioContext)();
     audioContextRef.current = context;
     
-    setAudioState(context.state as AudioState);
-    context.onstatechange = () => setAudioState(context.state as AudioState);
+    setAudioState(toAudioState(context.state));
+    context.onstatechange = () => {
+        setAudioState(toAudioState(context.state));
+        if (hasMediaSession) navigator.mediaSession.playbackState = context.state === 'running' ? 'playing' : 'paused';
+    };
 
     if (context.state === 'suspended') {
       await context.resume();
     }
     
+    setAssets(Object.fromEntries([
+        ...themes.map(theme => [theme.id, createPendingAsset(theme.id, 'theme', theme.name)]),
+        ...allLayers.map(layer => [layer.id, createPendingAsset(layer.id, 'layer', layer.name)]),
+    ]));
+    allLayers.forEach(layer => layerIdsRef.current.add(layer.id));
     setIsLoading(true);
 
     try {
         const masterGain = context.createGain();
         masterGain.gain.value = 0; // Start silent
-        masterGain.connect(context.destination);
+        const reverbBus = new ReverbBus(context, environmentRef.current);
+        masterGain.connect(reverbBus.input);
+        reverbBus.connect(context.destination);
         masterGainRef.current = masterGain;
-        
-        // --- 1. Set up Themes for streaming ---
-        themes.forEach(theme => {
-            const audioEl = new Audio(theme.audioSrc);
-            audioEl.crossOrigin = "anonymous";
-            audioEl.loop = true;
-            themeAudioElementsRef.current.set(theme.id, audioEl);
-
-            const sourceNode = context.createMediaElementSource(audioEl);
-            const gainNode = context.createGain();
-            
-            const initialGain = theme.id === initialThemeId ? initialMainVolume : 0;
-            gainNode.gain.value = initialGain;
-
-            sourceNode.connect(gainNode).connect(masterGain);
-            themeGainNodesRef.current.set(theme.id, gainNode);
-        });
-        
-        // --- 2. Load Layers into memory for seamless looping ---
-        const loadPromises = allLayers.map(layer => 
-            fetch(layer.audioSrc)
-                .then(response => {
-                    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-                    return response.arrayBuffer();
-                })
-                .then(buffer => context.decodeAudioData(buffer))
-                .then(decodedData => {
-                    layerAudioBuffersRef.current.set(layer.id, decodedData);
-                })
-                .catch(err => {
-                    console.warn(`Could not load or decode audio for "${layer.name}" from ${layer.audioSrc}. Using a silent placeholder. Error:`, err);
-                    const silentBuffer = createSilentAudioBuffer(context, 2);
-                    layerAudioBuffersRef.current.set(layer.id, silentBuffer);
-                })
-        );
-        
-        await Promise.all(loadPromises);
-
-        // --- 3. Create Layer Players ---
-        allLayers.forEach(layer => {
-            const buffer = layerAudioBuffersRef.current.get(layer.id);
-            if (!buffer) return;
-
-            const initialGainValue = currentVolumes[layer.id] ?? 0;
-            const player = new LoopingPlayer(context, buffer, initialGainValue);
-            player.connect(masterGain);
-            player.start();
-            layerPlayersRef.current.set(layer.id, player);
-        });
+        reverbBusRef.current = reverbBus;
 
-        // --- 4. Start Playback ---
-        // Start all theme audio elements. Only the active one has volume.
-        // FIX: Add explicit type annotation for 'el' to resolve a TypeScript inference issue.
-        const playPromises = Array.from(themeAudioElementsRef.current.values()).map((el: HTMLAudioElement) => el.play());
-        await Promise.all(playPromises).catch(e => console.warn("Some themes could not be autoplayed:", e));
-
-        // Fade in master volume for a smooth start
-        masterGain.gain.linearRampToValueAtTime(1.0, context.currentTime + FADE_TIME);
+        const masterAnalyser = context.createAnalyser();
+        masterAnalyser.fftSize = 2048;
+        masterAnalyser.smoothingTimeConstant = 0.8;
+        masterGain.connect(masterAnalyser);
+        setAnalyser(masterAnalyser);
+        
+        // --- 1. Set up Themes (sources are attached once downloaded) ---
+        themes.forEach(theme => setupTheme(context, masterGain, theme, theme.id === initialThemeId ? initialMainVolume : 0));
         
+        // --- 2. Download everything, streaming progress. Layers are decoded into
+        // memory for seamless looping and start playing as soon as they're ready.
+        await Promise.all([
+            ...themes.map(theme => loadTheme(theme)),
+            ...allLayers.map(layer => loadLayer(context, layer)),
+        ]);
     } catch (error) {
         console.error("An unexpected error occurred during audio initialization:", error);
     } finally {
+        // --- 3. Start Playback (a no-op if the user already started early) ---
+        startPlayback();
         setIsLoading(false);
         setIsInitialized(true);
     }
-  }, [isInitialized, themes, allLayers, initialThemeId, currentVolumes, initialMainVolume]);
+  }, [isInitialized, themes, allLayers, initialThemeId, initialMainVolume, setupTheme, loadTheme, loadLayer, startPlayback]);
+
+  // Tears down everything built for a layer
+  const removeLayer = (layerId: string) => {
+    const player = layerPlayersRef.current.get(layerId);
+    player?.stop();
+    player?.disconnect();
+    layerPlayersRef.current.delete(layerId);
+    layerAudioBuffersRef.current.delete(layerId);
+    layerClipsRef.current.delete(layerId);
+    layerPannersRef.current.get(layerId)?.dispose();
+    layerPannersRef.current.delete(layerId);
+    levelAnalysersRef.current.delete(layerId);
+    driftModulatorsRef.current.get(layerId)?.stop();
+    driftModulatorsRef.current.delete(layerId);
+  };
+
+  // The layer list can change once running (the user adds or deletes an upload):
+  // new layers load and join the mix, removed ones are torn down
+  useEffect(() => {
+    const context = audioContextRef.current;
+    if (!isInitialized || !context) return;
+
+    const layerIds = layerIdsRef.current;
+    allLayers.filter(layer => !layerIds.has(layer.id)).forEach(layer => {
+        layerIds.add(layer.id);
+        setAssets(prev => ({ ...prev, [layer.id]: createPendingAsset(layer.id, 'layer', layer.name) }));
+        loadLayer(context, layer);
+    });
+    Array.from<string>(layerIds).filter(id => !allLayers.some(layer => layer.id === id)).forEach(id => {
+        layerIds.delete(id);
+        removeLayer(id);
+        setAssets(prev => {
+            const { [id]: _, ...rest } = prev;
+            return rest;
+        });
+    });
+  }, [isInitialized, allLayers, loadLayer]);
 
 
+  // Themes registered once running (a theme file that arrived late) are set up
+  // and loaded like the rest. The active one comes in at the mix's volume.
+  useEffect(() => {
+    const context = audioContextRef.current;
+    const masterGain = masterGainRef.current;
+    if (!isInitialized || !context || !masterGain) return;
+
+    themes.filter(theme => !themeAudioElementsRef.current.has(theme.id)).forEach(theme => {
+        setupTheme(context, masterGain, theme, theme.id === activeThemeIdRef.current ? initialMainVolumeRef.current : 0);
+        setAssets(prev => ({ ...prev, [theme.id]: createPendingAsset(theme.id, 'theme', theme.name) }));
+        loadTheme(theme);
+    });
+  }, [isInitialized, themes, setupTheme, loadTheme]);
+
   const setLayerVolume = useCallback((layerId: string, volume: number, duration: number = 0.1) => {
     const context = audioContextRef.current;
     const player = layerPlayersRef.current.get(layerId);
@@ -302,6 +675,320 @@ export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolum
 
   }, [isMuted]);
 
+  // Long fade of the whole mix to silence
+  const fadeOutMaster = useCallback((duration: number) => {
+    const context = audioContextRef.current;
+    const masterGain = masterGainRef.current;
+    if (!context || !masterGain || duration <= 0) return;
+
+    masterGain.gain.cancelScheduledValues(context.currentTime);
+    masterGain.gain.setValueCurveAtTime(decibelFadeCurve(masterGain.gain.value, duration), context.currentTime, duration);
+  }, []);
+
+  // Interrupts a long fade and glides back to the normal (or muted) level
+  const restoreMaster = useCallback((duration: number = FADE_TIME / 2) => {
+    const context = audioContextRef.current;
+    const masterGain = masterGainRef.current;
+    if (!context || !masterGain) return;
+
+    const currentLevel = masterGain.gain.value;
+    masterGain.gain.cancelScheduledValues(context.currentTime);
+    masterGain.gain.setValueAtTime(currentLevel, context.currentTime);
+    masterGain.gain.linearRampToValueAtTime(isMuted ? 0 : 1, context.currentTime + duration);
+  }, [isMuted]);
+
+  // Stops everything so the device can sleep: schedulers, theme streams and the context itself
+  const suspendPlayback = useCallback(async () => {
+    const context = audioContextRef.current;
+    if (!context || context.state === 'closed') return;
+
+    layerPlayersRef.current.forEach(player => player.stop());
+    themeAudioElementsRef.current.forEach(el => el.pause());
+    await context.suspend();
+  }, []);
+
+  // Brings everything back from silence, linearly or (for long rises like the wake
+  // alarm) along an even decibel curve. `overrideMute` unmutes first, for callers
+  // that must be heard. Resolves to false if the browser wouldn't let the context run.
+  const resumePlayback = useCallback(async (fadeInDuration: number = FADE_TIME, shape: 'linear' | 'gentle' = 'linear', overrideMute = false): Promise<boolean> => {
+    const context = audioContextRef.current;
+    const masterGain = masterGainRef.current;
+    if (!context || !masterGain || context.state === 'closed') return false;
+
+    // Called mid pause: keep playing, gliding back up from wherever the fade got to
+    if (pauseTimerRef.current !== null) {
+        window.clearTimeout(pauseTimerRef.current);
+        pauseTimerRef.current = null;
+        setIsPausing(false);
+    }
+
+    await Promise.race([context.resume(), new Promise(resolve => window.setTimeout(resolve, RESUME_TIMEOUT))]);
+    if (context.state !== 'running') return false;
+
+    if (overrideMute && isMuted) setIsMuted(false);
+    const targetLevel = isMuted && !overrideMute ? 0 : 1;
+    const startLevel = masterGain.gain.value;
+    masterGain.gain.cancelScheduledValues(context.currentTime);
+    if (shape === 'gentle' && fadeInDuration > 0 && startLevel < targetLevel) {
+        // Rises from wherever the mix already is, so one that's playing doesn't drop out first
+        const rise = decibelFadeCurve(1, fadeInDuration).reverse().map(step => startLevel + (targetLevel - startLevel) * step);
+        masterGain.gain.setValueCurveAtTime(rise, context.currentTime, fadeInDuration);
+    } else {
+        masterGain.gain.setValueAtTime(masterGain.gain.value, context.currentTime);
+        masterGain.gain.linearRampToValueAtTime(targetLevel, context.currentTime + fadeInDuration);
+    }
+
+    layerPlayersRef.current.forEach(player => player.start());
+    themeAudioElementsRef.current.forEach((el, themeId) => {
+        if (!themeObjectUrlsRef.current.has(themeId)) return;
+        el.play().catch(e => console.warn("Some themes could not be resumed:", e));
+    });
+    return true;
+  }, [isMuted]);
+
+  // The transport's pause: a short fade, then everything stops as for the sleep
+  // timer. Resuming picks the loops up where they were.
+  const pausePlayback = useCallback(() => {
+    const context = audioContextRef.current;
+    const masterGain = masterGainRef.current;
+    if (!context || !masterGain || context.state !== 'running' || pauseTimerRef.current !== null) return;
+
+    masterGain.gain.cancelScheduledValues(context.currentTime);
+    masterGain.gain.setValueAtTime(masterGain.gain.value, context.currentTime);
+    masterGain.gain.linearRampToValueAtTime(0, context.currentTime + PAUSE_FADE);
+    setIsPausing(true);
+    pauseTimerRef.current = window.setTimeout(() => {
+        pauseTimerRef.current = null;
+        suspendPlayback().finally(() => setIsPausing(false));
+    }, PAUSE_FADE * 1000);
+  }, [suspendPlayback]);
+
+  // Playing as far as the user is concerned: a pause on its way out already counts as paused
+  const isPlaying = audioState === AudioState.Running && !isPausing;
+
+  const togglePlayback = useCallback(() => {
+    if (isPlaying) pausePlayback();
+    else resumePlayback();
+  }, [isPlaying, pausePlayback, resumePlayback]);
+
+  // A short bell over the mix. It skips the master gain so a fade can't swallow it,
+  // but still goes through the room.
+  const playCue = useCallback(() => {
+    const context = audioContextRef.current;
+    const reverbBus = reverbBusRef.current;
+    if (!context || !reverbBus || isMuted || context.state !== 'running') return;
+    playChime(context, reverbBus.input);
+  }, [isMuted]);
+
+  const setEnvironment = useCallback((setting: EnvironmentSetting) => {
+    environmentRef.current = setting;
+    reverbBusRef.current?.setEnvironment(setting);
+  }, []);
+
+  // Places a layer around the listener; null puts it back at its default spot
+  const setLayerPosition = useCallback((layerId: string, position: Vector3 | null) => {
+    if (position) layerPositionsRef.current.set(layerId, position);
+    else layerPositionsRef.current.delete(layerId);
+
+    const layer = allLayers.find(l => l.id === layerId);
+    const panner = layerPannersRef.current.get(layerId);
+    if (layer && panner) panner.setPosition(getLayerSpatial(layer).position);
+  }, [allLayers]);
+
+  const setBinaural = useCallback((settings: BinauralSettings) => {
+    binauralSettingsRef.current = settings;
+    layerPlayersRef.current.forEach(player => {
+        if (player instanceof BinauralPlayer) player.update(settings);
+    });
+  }, []);
+
+  const setLayerTone = useCallback((layerId: string, settings: ToneSettings) => {
+    layerTonesRef.current.set(layerId, settings);
+    layerPlayersRef.current.get(layerId)?.setTone(settings);
+  }, []);
+
+  // --- Drift ---
+  // Turns drift on (or retunes it) for a layer; null turns it off
+  const setLayerDrift = useCallback((layerId: string, settings: DriftSettings | null) => {
+    const context = audioContextRef.current;
+    const player = layerPlayersRef.current.get(layerId);
+    const modulator = driftModulatorsRef.current.get(layerId);
+
+    if (!settings) {
+        driftSettingsRef.current.delete(layerId);
+        modulator?.stop();
+        driftModulatorsRef.current.delete(layerId);
+        return;
+    }
+
+    driftSettingsRef.current.set(layerId, settings);
+    if (modulator) {
+        modulator.update(settings);
+    } else if (context && player) {
+        const newModulator = new DriftModulator(context, player.modulation, settings);
+        driftModulatorsRef.current.set(layerId, newModulator);
+        if (!driftPausedRef.current.has(layerId)) newModulator.start();
+    }
+  }, []);
+
+  // Holds a layer at its set point, e.g. while its slider is being dragged
+  const pauseLayerDrift = useCallback((layerId: string) => {
+    driftPausedRef.current.add(layerId);
+    driftModulatorsRef.current.get(layerId)?.stop();
+  }, []);
+
+  const resumeLayerDrift = useCallback((layerId: string) => {
+    driftPausedRef.current.delete(layerId);
+    driftModulatorsRef.current.get(layerId)?.start();
+  }, []);
+
+  // What a layer is actually playing at, drift and automation included
+  const getLiveVolume = useCallback((layerId: string): number | null => {
+    const player = layerPlayersRef.current.get(layerId);
+    return player ? player.gain.value * player.modulation.value : null;
+  }, []);
+
+  // --- Automation ---
+  const stopAutomation = useCallback(() => {
+    automationPlayerRef.current?.stop();
+    automationPlayerRef.current = null;
+    if (automationEndTimerRef.current !== null) window.clearTimeout(automationEndTimerRef.current);
+    automationEndTimerRef.current = null;
+    setIsAutomationPlaying(false);
+  }, []);
+
+  // Runs a timeline from its start over the active theme and the layer players.
+  // It writes to the same gains as the sliders, so the app stops it when one moves.
+  const startAutomation = useCallback((automation: Automation) => {
+    const context = audioContextRef.current;
+    if (!context) return;
+    stopAutomation();
+
+    const resolveParam = (laneId: string) => laneId === THEME_LANE_ID
+      ? themeGainNodesRef.current.get(activeThemeId)?.gain
+      : layerPlayersRef.current.get(laneId)?.gain;
+    const player = new AutomationPlayer(context, automation, resolveParam);
+    player.start();
+    automationPlayerRef.current = player;
+    setIsAutomationPlaying(true);
+
+    if (automation.loop) return;
+    // A finished one-shot leaves the mix where it ended; bring the sliders along.
+    // The timeline runs on the audio clock, which stands still while paused or
+    // asleep, so the timer only checks in: until the player says it's done, it
+    // waits again for whatever is left.
+    const waitForEnd = () => {
+      const remaining = automation.length - player.position + 0.1;
+      automationEndTimerRef.current = window.setTimeout(() => {
+        automationEndTimerRef.current = null;
+        if (!player.isFinished) {
+          waitForEnd();
+          return;
+        }
+        automationPlayerRef.current = null;
+        setIsAutomationPlaying(false);
+        const endVolumes: Record<string, number> = {};
+        Object.keys(automation.lanes).forEach(laneId => {
+          const layerPlayer = layerPlayersRef.current.get(laneId);
+          if (layerPlayer) endVolumes[laneId] = layerPlayer.gain.value;
+        });
+        setCurrentVolumes(prev => ({ ...prev, ...endVolumes }));
+      }, Math.max(AUTOMATION_END_POLL, remaining) * 1000);
+    };
+    waitForEnd();
+  }, [activeThemeId, stopAutomation]);
+
+  // Seconds into the running timeline, or null when none is running
+  const getAutomationPosition = useCallback((): number | null => {
+    return automationPlayerRef.current?.position ?? null;
+  }, []);
+
+  // Renders the playing theme and every audible layer offline, handing each
+  // finished track to the caller one at a time so only one is held in memory.
+  const renderExport = useCallback(async (
+    options: MixExportOptions,
+    onTrackRendered: (track: RenderedTrack, index: number, total: number) => void
+  ) => {
+    const context = audioContextRef.current;
+    if (!context) return;
+
+    const sources: (MixRenderSource & { id: string; name: string })[] = [];
+    const theme = themes.find(t => t.id === activeThemeId);
+    const themeBlob = themeBlobsRef.current.get(activeThemeId);
+    if (theme && themeBlob && options.themeVolume > 0) {
+        const buffer = await context.decodeAudioData(await themeBlob.arrayBuffer());
+        sources.push({ id: theme.id, name: theme.name, buffer, volume: options.themeVolume, spatial: theme.spatial });
+    }
+    allLayers.forEach(layer => {
+        const volume = currentVolumesRef.current[layer.id] ?? 0;
+        const buffer = layerAudioBuffersRef.current.get(layer.id);
+        const clips = layerClipsRef.current.get(layer.id);
+        const tone = layerTonesRef.current.get(layer.id);
+        if (volume > 0 && buffer) {
+            sources.push({ id: layer.id, name: layer.name, buffer, volume, spatial: getLayerSpatial(layer), tone });
+        } else if (volume > 0 && clips && layer.events) {
+            sources.push({ id: layer.id, name: layer.name, events: { clips, config: layer.events }, volume, spatial: getLayerSpatial(layer), tone });
+        } else if (volume > 0 && layer.kind === 'noise' && layer.noise) {
+            sources.push({ id: layer.id, name: layer.name, noise: layer.noise, volume, spatial: getLayerSpatial(layer), tone });
+        } else if (volume > 0 && layer.kind === 'binaural') {
+            sources.push({ id: layer.id, name: layer.name, binaural: binauralSettingsRef.current, volume, tone });
+        }
+    });
+
+    const renderOptions = { ...options, sampleRate: context.sampleRate };
+    const total = options.stems ? sources.length + 1 : 1;
+    const mixOptions = { ...renderOptions, environment: environmentRef.current };
+    onTrackRendered({ id: 'mix', name: 'Mix', buffer: await renderMix(sources, mixOptions) }, 0, total);
+    if (!options.stems) return;
+
+    for (let i = 0; i < sources.length; i++) {
+        const { id, name } = sources[i];
+        onTrackRendered({ id, name, buffer: await renderMix([sources[i]], renderOptions) }, i + 1, total);
+    }
+  }, [themes, allLayers, activeThemeId]);
+
+  // Publishes what's playing to the OS media overlay and lock screen
+  const setMediaInfo = useCallback((info: MediaSessionInfo) => {
+    const previous = mediaInfoRef.current;
+    mediaInfoRef.current = info;
+    if (!hasMediaSession) return;
+    if (previous && previous.title === info.title && previous.subtitle === info.subtitle && previous.artwork === info.artwork) return;
+    navigator.mediaSession.metadata = new MediaMetadata({
+        title: info.title,
+        artist: info.subtitle,
+        album: 'Etherfields',
+        artwork: info.artwork ? [{ src: info.artwork, sizes: '512x512', type: 'image/png' }] : [],
+    });
+  }, []);
+
+  // Media keys: play/pause suspend and resume the whole engine, next/previous
+  // are left to the app. Registered once the engine is running.
+  useEffect(() => {
+    if (!hasMediaSession || !isInitialized) return;
+    const session = navigator.mediaSession;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+        ['play', () => { resumePlayback(); }],
+        ['pause', pausePlayback],
+        ['stop', pausePlayback],
+        ['nexttrack', () => mediaInfoRef.current?.onNext()],
+        ['previoustrack', () => mediaInfoRef.current?.onPrevious()],
+    ];
+    handlers.forEach(([action, handler]) => {
+        try {
+            session.setActionHandler(action, handler);
+        } catch {
+            // Not every browser knows every action
+        }
+    });
+    return () => handlers.forEach(([action]) => {
+        try {
+            session.setActionHandler(action, null);
+        } catch {
+            // As above
+        }
+    });
+  }, [isInitialized, resumePlayback, pausePlayback]);
+
 	const resetAndPlayTheme = useCallback((
 		newThemeAudioId: string, 
 		newLayers: string[], 
@@ -312,13 +999,17 @@ export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolum
 		const masterGain = masterGainRef.current;
 		if (!context || !masterGain) return;
 
-		const fadeOutDuration = 0.5;
 		const fadeInDuration = 1.5;
+		// Paused (or on the way there): the master stays silent and the sources are swapped straight away
+		const isSilenced = () => pauseTimerRef.current !== null || context.state !== 'running';
+		const fadeOutDuration = isSilenced() ? 0 : 0.5;
 
 		// 1. Fade out master volume to silence everything
-		masterGain.gain.cancelScheduledValues(context.currentTime);
-		masterGain.gain.setValueAtTime(masterGain.gain.value, context.currentTime);
-		masterGain.gain.linearRampToValueAtTime(0.0, context.currentTime + fadeOutDuration);
+		if (fadeOutDuration > 0) {
+			masterGain.gain.cancelScheduledValues(context.currentTime);
+			masterGain.gain.setValueAtTime(masterGain.gain.value, context.currentTime);
+			masterGain.gain.linearRampToValueAtTime(0.0, context.currentTime + fadeOutDuration);
+		}
 
 		// 2. After fade out, reconfigure audio sources and then fade back in
 		setTimeout(() => {
@@ -339,14 +1030,18 @@ export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolum
 			});
 			
 			// Update internal state to match new reality
-			setCurrentVolumes(prev => ({ ...prev, ...newLayerVolumes }));
+			setCurrentVolumes(prev => {
+				const silenced = Object.fromEntries(Object.keys(prev).map(layerId => [layerId, 0]));
+				return { ...silenced, ...newLayerVolumes };
+			});
 			setActiveThemeId(newThemeAudioId);
 
-			// 3. Fade master volume back in
-			masterGain.gain.linearRampToValueAtTime(1.0, context.currentTime + fadeInDuration);
+			// 3. Fade master volume back in, to silence if muted; a pause keeps it down
+			if (isSilenced()) return;
+			masterGain.gain.linearRampToValueAtTime(isMuted ? 0 : 1, context.currentTime + fadeInDuration);
 
 		}, fadeOutDuration * 1000);
-	}, []);
+	}, [isMuted]);
 
   useEffect(() => {
     return () => {
@@ -361,11 +1056,38 @@ export const useAudioEngine = ({ themes, allLayers, initialThemeId, initialVolum
     audioState,
     activeThemeId,
     currentVolumes,
+    analyser,
+    getLevels,
+    assets,
     initializeAudio,
+    startPlayback,
+    retryAsset,
     selectTheme,
     setLayerVolume,
     setMainVolume,
     toggleMute,
+    fadeOutMaster,
+    restoreMaster,
+    suspendPlayback,
+    resumePlayback,
+    isPlaying,
+    pausePlayback,
+    togglePlayback,
+    renderExport,
     resetAndPlayTheme,
+    isAutomationPlaying,
+    startAutomation,
+    stopAutomation,
+    getAutomationPosition,
+    setEnvironment,
+    playCue,
+    setMediaInfo,
+    setLayerPosition,
+    setBinaural,
+    setLayerTone,
+    setLayerDrift,
+    pauseLayerDrift,
+    resumeLayerDrift,
+    getLiveVolume,
   };
 };
\ No newline at end of file
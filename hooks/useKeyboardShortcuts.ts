@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+
+export interface Shortcut {
+  id: string;
+  keys: string[]; // KeyboardEvent.key values that trigger it
+  label: string; // How the keys are shown in the help overlay, e.g. '1–4'
+  description: string;
+  mod?: boolean; // Needs Ctrl (or Cmd on a Mac)
+  action: (event: KeyboardEvent) => void;
+}
+
+// Buttons, toggles and sliders act on some keys themselves: Space and Enter
+// press a button or tick a box, and the arrow keys move a slider or radio group
+const ACTIVATION_KEYS = [' ', 'Enter'];
+const ARROW_KEYS = ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'];
+const TOGGLE_INPUTS = ['checkbox', 'radio', 'button', 'submit', 'reset'];
+
+// Whether the focused element handles this key natively, so a shortcut mustn't
+const isOwnKey = (target: EventTarget | null, key: string) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) {
+    if (target.type === 'range') return ARROW_KEYS.includes(key);
+    if (target.type === 'radio' && ARROW_KEYS.includes(key)) return true;
+    return TOGGLE_INPUTS.includes(target.type) ? ACTIVATION_KEYS.includes(key) : true;
+  }
+  if (target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  if (['BUTTON', 'SUMMARY'].includes(target.tagName) || target.getAttribute('role') === 'button') {
+    return ACTIVATION_KEYS.includes(key);
+  }
+  return false;
+};
+
+// --- Global Keyboard Shortcuts ---
+// One window listener for the whole list. The list is read through a ref, so it
+// can be rebuilt every render without re-subscribing. Plain-key shortcuts stand
+// aside for keys the focused control uses itself; modifier shortcuts work everywhere.
+export const useKeyboardShortcuts = (shortcuts: Shortcut[], isEnabled = true) => {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.defaultPrevented) return;
+      const hasMod = event.ctrlKey || event.metaKey;
+      const shortcut = shortcutsRef.current.find(s =>
+        s.keys.includes(event.key) && !!s.mod === hasMod && (s.mod || !isOwnKey(event.target, event.key)));
+      if (!shortcut) return;
+      event.preventDefault();
+      shortcut.action(event);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEnabled]);
+};
@@ -0,0 +1,172 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { AssetRef } from '../types';
+import { isOfflineSupported, cachedSize, cacheFiles, removeFiles, findChangedFiles } from '../utils/offlineCache';
+
+// Something that can be kept offline as a unit: a theme's stream, or the layer files
+export interface OfflineItem {
+  id: string;
+  name: string;
+  files: AssetRef[];
+}
+
+export interface OfflineItemStatus {
+  state: 'missing' | 'downloading' | 'ready' | 'failed';
+  bytes: number; // What its cached files take up
+  progress: number; // 0..1 while downloading
+  error?: string;
+}
+
+const STORAGE_KEY = 'etherfields_offline_pins';
+
+// Nothing is kept offline until the user picks it: a full set of themes is a lot to download unasked
+const loadPins = (): string[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.error(`Error parsing localStorage key "${STORAGE_KEY}":`, error);
+    return [];
+  }
+};
+
+// --- Offline Cache ---
+// Registers the service worker and keeps the audio cache in line with the pinned
+// items: pinning downloads, unpinning frees the space. Also watches for two kinds
+// of update: changed sound files on the server, and a new service worker waiting
+// to take over (applied with a reload). `items` should be stable between renders.
+// Nothing is downloaded until `isEnabled`, so the first visit can let the player
+// fetch the files first and fill the cache from the browser's HTTP cache after.
+export const useOfflineCache = (items: OfflineItem[], isEnabled: boolean) => {
+  const isSupported = isOfflineSupported();
+  const [pins, setPins] = useState<string[]>(loadPins);
+  const [statuses, setStatuses] = useState<Record<string, OfflineItemStatus>>({});
+  const [changedPaths, setChangedPaths] = useState<string[]>([]);
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+
+  const syncRef = useRef<Promise<void>>(Promise.resolve()); // Syncs run one after another
+  const isApplyingUpdateRef = useRef(false);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pins));
+  }, [pins]);
+
+  const setStatus = (id: string, patch: Partial<OfflineItemStatus>) =>
+    setStatuses(prev => ({ ...prev, [id]: { state: 'missing', bytes: 0, progress: 0, ...prev[id], ...patch } }));
+
+  const refreshStorage = async () => {
+    if (!navigator.storage?.estimate) return;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    setStorage({ usage, quota });
+  };
+
+  // Brings the cache in line with `pinned`, item by item
+  const sync = useCallback((pinned: string[], refreshPaths: string[] = []) => {
+    if (!isSupported) return syncRef.current;
+    syncRef.current = syncRef.current.then(async () => {
+      const keptPaths = new Set(items.filter(item => pinned.includes(item.id)).flatMap(item => item.files.map(file => file.path)));
+      for (const item of items) {
+        if (!pinned.includes(item.id)) {
+          await removeFiles(item.files.filter(file => !keptPaths.has(file.path)));
+          setStatus(item.id, { state: 'missing', bytes: 0, progress: 0, error: undefined });
+          continue;
+        }
+        const refresh = item.files.some(file => refreshPaths.includes(file.path));
+        const { cachedCount } = await cachedSize(item.files);
+        if (cachedCount < item.files.length || refresh) {
+          setStatus(item.id, { state: 'downloading', progress: 0, error: undefined });
+          try {
+            await cacheFiles(item.files, (done, total) => setStatus(item.id, { progress: total ? done / total : 1 }), refresh);
+          } catch (err) {
+            setStatus(item.id, { state: 'failed', error: err instanceof Error ? err.message : String(err), ...(await cachedSize(item.files)) });
+            continue;
+          }
+        }
+        setStatus(item.id, { state: 'ready', progress: 1, bytes: (await cachedSize(item.files)).bytes });
+      }
+      await refreshStorage();
+    }).catch(error => console.error('Offline cache sync failed:', error));
+    return syncRef.current;
+  }, [isSupported, items]);
+
+  useEffect(() => {
+    if (isEnabled) sync(pins);
+  }, [isEnabled, pins, sync]);
+
+  // Looks for changed files once per visit, after the first sync has settled
+  useEffect(() => {
+    if (!isSupported || !isEnabled || !navigator.onLine) return;
+    let isCancelled = false;
+    syncRef.current.then(async () => {
+      const pinnedFiles = items.filter(item => pins.includes(item.id)).flatMap(item => item.files);
+      const changed = await findChangedFiles(pinnedFiles);
+      if (!isCancelled) setChangedPaths(changed.map(file => file.path));
+    });
+    return () => { isCancelled = true; };
+  }, [isSupported, isEnabled, items]); // Not on every pin change: new pins are fresh downloads
+
+  // The service worker only runs in builds: in development it would serve stale modules
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) setWaitingWorker(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          // With no controller yet this is the first install, not an update
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(worker);
+        });
+      });
+    }).catch(error => console.warn('Service worker registration failed:', error));
+
+    const handleControllerChange = () => {
+      if (isApplyingUpdateRef.current) window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+    return () => navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const setPinned = useCallback((id: string, isPinned: boolean) => {
+    setPins(prev => isPinned ? Array.from(new Set([...prev, id])) : prev.filter(pin => pin !== id));
+  }, []);
+
+  // Downloads the changed files again
+  const updateFiles = useCallback(async () => {
+    const paths = changedPaths;
+    setChangedPaths([]);
+    await sync(pins, paths);
+  }, [changedPaths, pins, sync]);
+
+  // Hands over to the waiting service worker; the page reloads once it has taken control
+  const applyAppUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    isApplyingUpdateRef.current = true;
+    waitingWorker.postMessage('skipWaiting');
+  }, [waitingWorker]);
+
+  return {
+    isSupported,
+    isOnline,
+    pins,
+    statuses,
+    storage,
+    setPinned,
+    hasChangedFiles: changedPaths.length > 0,
+    updateFiles,
+    isAppUpdateReady: waitingWorker !== null,
+    applyAppUpdate,
+  };
+};
@@ -0,0 +1,99 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { PomodoroConfig, PomodoroSession } from '../types';
+
+interface UsePomodoroProps {
+  isReady: boolean; // Phases only advance while the audio is up
+  // Called when the session starts (cue false), moves on, or ends (session null)
+  onPhaseChange: (session: PomodoroSession | null, cue: boolean) => void;
+}
+
+const STORAGE_KEY = 'etherfields_pomodoro';
+const TICK_INTERVAL = 1000; // ms
+
+const loadSession = (): PomodoroSession | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as PomodoroSession) : null;
+  } catch (error) {
+    console.error(`Error parsing localStorage key "${STORAGE_KEY}":`, error);
+    return null;
+  }
+};
+
+// The phase after this one, timed from when this one ends; null once the last work block is done
+const nextPhase = (session: PomodoroSession): PomodoroSession | null => {
+  const { config, phase, cycle, endsAt } = session;
+  if (phase === 'work') {
+    if (cycle >= config.cycles) return null;
+    return { ...session, phase: 'break', endsAt: endsAt + config.breakMinutes * 60000 };
+  }
+  return { ...session, phase: 'work', cycle: cycle + 1, endsAt: endsAt + config.workMinutes * 60000 };
+};
+
+// --- Focus Sessions ---
+// Alternates work and break phases in wall-clock time, like the sleep timer. The
+// session is persisted with absolute end times, so after a reload (or a long
+// background stint) it catches up by skipping over any phases that have passed.
+export const usePomodoro = ({ isReady, onPhaseChange }: UsePomodoroProps) => {
+  const [session, setSession] = useState<PomodoroSession | null>(loadSession);
+  const [remaining, setRemaining] = useState(0); // seconds
+
+  const sessionRef = useRef(session);
+  const onPhaseChangeRef = useRef(onPhaseChange);
+  onPhaseChangeRef.current = onPhaseChange;
+
+  const updateSession = (next: PomodoroSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+    if (next) localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    else localStorage.removeItem(STORAGE_KEY);
+  };
+
+  const tick = useCallback(() => {
+    const current = sessionRef.current;
+    if (!current) return;
+
+    const now = Date.now();
+    let next: PomodoroSession | null = current;
+    while (next && next.endsAt <= now) next = nextPhase(next);
+    if (next !== current) {
+      updateSession(next);
+      onPhaseChangeRef.current(next, true);
+    }
+    setRemaining(next ? Math.max(0, (next.endsAt - now) / 1000) : 0);
+  }, []);
+
+  const isActive = session !== null;
+  useEffect(() => {
+    if (!isActive || !isReady) return;
+    tick();
+    const intervalId = window.setInterval(tick, TICK_INTERVAL);
+    return () => window.clearInterval(intervalId);
+  }, [isActive, isReady, tick]);
+
+  const start = useCallback((config: PomodoroConfig) => {
+    const next: PomodoroSession = { config, phase: 'work', cycle: 1, endsAt: Date.now() + config.workMinutes * 60000 };
+    updateSession(next);
+    setRemaining(config.workMinutes * 60);
+    onPhaseChangeRef.current(next, false);
+  }, []);
+
+  // Ends the current phase now
+  const skip = useCallback(() => {
+    const current = sessionRef.current;
+    if (!current) return;
+    const shift = Date.now() - current.endsAt;
+    const next = nextPhase(current);
+    // Later phases keep their full length from now
+    updateSession(next && { ...next, endsAt: next.endsAt + shift });
+    onPhaseChangeRef.current(sessionRef.current, true);
+    tick();
+  }, [tick]);
+
+  const stop = useCallback(() => {
+    updateSession(null);
+    setRemaining(0);
+  }, []);
+
+  return { session, remaining, start, skip, stop };
+};
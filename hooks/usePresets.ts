@@ -0,0 +1,109 @@
+import { useState, useCallback, useEffect } from 'react';
+import { MixPreset, MixSnapshot } from '../types';
+import { ImportedPreset } from '../utils/presetFile';
+
+// What to do when an imported preset has the same name as one in the library
+export type PresetConflictPolicy = 'rename' | 'replace' | 'skip';
+
+const STORAGE_KEY = 'etherfields_presets';
+
+const loadPresets = (): MixPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as MixPreset[]) : [];
+  } catch (error) {
+    console.error(`Error parsing localStorage key "${STORAGE_KEY}":`, error);
+    return [];
+  }
+};
+
+export const createPresetId = () =>
+  typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Picks "Name", "Name 2", "Name 3"... so names in the library stay unique
+export const uniquePresetName = (name: string, presets: MixPreset[]) => {
+  const taken = new Set(presets.map(p => p.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} ${n}`)) n++;
+  return `${name} ${n}`;
+};
+
+// A preset as it would be without one layer: its volume, tone, stage spot and timeline lane go too
+const withoutLayer = (preset: MixPreset, layerId: string): MixPreset => {
+  const { [layerId]: _volume, ...volumes } = preset.volumes;
+  const next: MixPreset = { ...preset, layers: preset.layers.filter(id => id !== layerId), volumes };
+  if (preset.tones) {
+    const { [layerId]: _tone, ...tones } = preset.tones;
+    next.tones = tones;
+  }
+  if (preset.positions) {
+    const { [layerId]: _position, ...positions } = preset.positions;
+    next.positions = positions;
+  }
+  if (preset.automation) {
+    const { [layerId]: _lane, ...lanes } = preset.automation.lanes;
+    next.automation = { ...preset.automation, lanes };
+  }
+  return next;
+};
+
+// --- Preset Library ---
+// Any number of named mix snapshots, persisted to localStorage.
+export const usePresets = () => {
+  const [presets, setPresets] = useState<MixPreset[]>(loadPresets);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  }, [presets]);
+
+  const savePreset = useCallback((name: string, mix: MixSnapshot) => {
+    setPresets(prev => [
+      ...prev,
+      { ...mix, id: createPresetId(), name: uniquePresetName(name.trim() || 'Untitled mix', prev), createdAt: Date.now() },
+    ]);
+  }, []);
+
+  const renamePreset = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setPresets(prev => prev.map(p => (p.id === id ? { ...p, name: uniquePresetName(trimmed, prev.filter(o => o.id !== id)) } : p)));
+  }, []);
+
+  const duplicatePreset = useCallback((id: string) => {
+    setPresets(prev => {
+      const source = prev.find(p => p.id === id);
+      if (!source) return prev;
+      const copy = { ...source, id: createPresetId(), name: uniquePresetName(`${source.name} copy`, prev), createdAt: Date.now() };
+      const index = prev.indexOf(source);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  const importPresets = useCallback((imported: ImportedPreset[], policy: PresetConflictPolicy) => {
+    setPresets(prev => {
+      let next = [...prev];
+      imported.forEach(preset => {
+        const existing = next.find(p => p.name === preset.name);
+        if (existing && policy === 'skip') return;
+        if (existing && policy === 'replace') {
+          next = next.map(p => (p.id === existing.id ? { ...preset, id: existing.id, createdAt: Date.now() } : p));
+          return;
+        }
+        next.push({ ...preset, id: createPresetId(), name: uniquePresetName(preset.name, next), createdAt: Date.now() });
+      });
+      return next;
+    });
+  }, []);
+
+  // For a sound that's gone for good, e.g. a deleted upload
+  const forgetLayer = useCallback((layerId: string) => {
+    setPresets(prev => prev.map(p => withoutLayer(p, layerId)));
+  }, []);
+
+  return { presets, savePreset, renamePreset, duplicatePreset, deletePreset, importPresets, forgetLayer };
+};
@@ -0,0 +1,74 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+
+export type SleepTimerPhase = 'idle' | 'running' | 'fading' | 'asleep';
+
+interface UseSleepTimerProps {
+  fadeOut: (duration: number) => void;
+  cancelFade: () => void;
+  suspend: () => void;
+  resume: () => void;
+}
+
+const TICK_INTERVAL = 1000; // ms
+
+// Counts down in wall-clock time and hands the audio work to the engine: the
+// fade itself is scheduled on the audio clock once the tail is reached.
+export const useSleepTimer = ({ fadeOut, cancelFade, suspend, resume }: UseSleepTimerProps) => {
+  const [phase, setPhase] = useState<SleepTimerPhase>('idle');
+  const [remaining, setRemaining] = useState(0); // seconds
+
+  const endAtRef = useRef(0);
+  const fadeDurationRef = useRef(0);
+  const phaseRef = useRef<SleepTimerPhase>('idle');
+
+  const updatePhase = (next: SleepTimerPhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  const tick = useCallback(() => {
+    const secondsLeft = Math.max(0, (endAtRef.current - Date.now()) / 1000);
+    setRemaining(secondsLeft);
+
+    if (phaseRef.current === 'running' && secondsLeft <= fadeDurationRef.current) {
+      fadeOut(secondsLeft);
+      updatePhase('fading');
+    }
+    if (phaseRef.current === 'fading' && secondsLeft <= 0) {
+      suspend();
+      updatePhase('asleep');
+    }
+  }, [fadeOut, suspend]);
+
+  useEffect(() => {
+    if (phase !== 'running' && phase !== 'fading') return;
+    const intervalId = window.setInterval(tick, TICK_INTERVAL);
+    return () => window.clearInterval(intervalId);
+  }, [phase, tick]);
+
+  const start = useCallback((minutes: number, fadeMinutes: number) => {
+    if (phaseRef.current === 'fading') cancelFade();
+    const durationSeconds = minutes * 60;
+    endAtRef.current = Date.now() + durationSeconds * 1000;
+    fadeDurationRef.current = Math.min(fadeMinutes * 60, durationSeconds);
+    setRemaining(durationSeconds);
+    updatePhase('running');
+    tick();
+  }, [cancelFade, tick]);
+
+  const cancel = useCallback(() => {
+    if (phaseRef.current === 'fading') cancelFade();
+    if (phaseRef.current === 'asleep') resume();
+    updatePhase('idle');
+    setRemaining(0);
+  }, [cancelFade, resume]);
+
+  // Clears the timer without touching the audio, for when something else has
+  // taken the sound over (the wake alarm)
+  const reset = useCallback(() => {
+    updatePhase('idle');
+    setRemaining(0);
+  }, []);
+
+  return { phase, remaining, start, cancel, reset };
+};
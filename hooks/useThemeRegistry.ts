@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getThemeRegistry, subscribeToThemeRegistry } from '../utils/themeRegistry';
+
+// --- Theme Registry ---
+// The registered themes and backdrops, re-rendering when theme files add more
+export const useThemeRegistry = () => useSyncExternalStore(subscribeToThemeRegistry, getThemeRegistry);
@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { SoundLayer } from '../types';
+import { StoredUpload, isUploadSupported, createUploadId, loadUploads, saveUpload, deleteUpload } from '../utils/uploadStore';
+
+// What the user chose for a new upload
+export interface UploadDetails {
+  name: string;
+  icon: string;
+  trimStart: number; // seconds
+  trimEnd: number | null; // seconds; the end of the file when null
+}
+
+// --- Uploaded Sounds ---
+// The user's own recordings as sound layers. They are read from IndexedDB once on
+// mount; adding or deleting one writes through before the list changes.
+export const useUploads = () => {
+  const isSupported = isUploadSupported();
+  const [uploads, setUploads] = useState<StoredUpload[]>([]);
+
+  useEffect(() => {
+    if (!isSupported) return;
+    loadUploads()
+      .then(setUploads)
+      .catch(error => console.error('Could not read uploaded sounds:', error));
+  }, [isSupported]);
+
+  const uploadedLayers = useMemo(() => uploads.map(upload => upload.layer), [uploads]);
+
+  const addUpload = useCallback(async (file: File, details: UploadDetails): Promise<SoundLayer> => {
+    const layer: SoundLayer = {
+      id: createUploadId(),
+      name: details.name.trim() || file.name,
+      icon: details.icon,
+      audioSrc: '',
+      kind: 'upload',
+      upload: { fileName: file.name, trimStart: details.trimStart, trimEnd: details.trimEnd },
+    };
+    const upload: StoredUpload = { layer, file, createdAt: Date.now() };
+    await saveUpload(upload);
+    setUploads(prev => [...prev, upload]);
+    return layer;
+  }, []);
+
+  const removeUpload = useCallback(async (id: string) => {
+    await deleteUpload(id);
+    setUploads(prev => prev.filter(upload => upload.layer.id !== id));
+  }, []);
+
+  // Stores the sounds that came with a preset file. One already here under the
+  // same id is the same recording, so it's left as it is. All or nothing: if one
+  // can't be stored, those already written are taken out again and the error rethrown.
+  const importUploads = useCallback(async (incoming: StoredUpload[]) => {
+    const known = new Set(uploads.map(upload => upload.layer.id));
+    const fresh = incoming.filter(upload => !known.has(upload.layer.id));
+    const saved: string[] = [];
+    try {
+      for (const upload of fresh) {
+        await saveUpload(upload);
+        saved.push(upload.layer.id);
+      }
+    } catch (error) {
+      await Promise.allSettled(saved.map(deleteUpload));
+      throw error;
+    }
+    if (fresh.length > 0) setUploads(prev => [...prev, ...fresh]);
+  }, [uploads]);
+
+  return { isSupported, uploads, uploadedLayers, addUpload, removeUpload, importUploads };
+};
@@ -0,0 +1,115 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { WakeAlarm } from '../types';
+import { DEFAULT_WAKE_ALARM } from '../constants';
+
+interface UseWakeAlarmProps {
+  isReady: boolean; // The alarm can only go off once the audio has been started
+  onWake: (alarm: WakeAlarm) => Promise<boolean>; // Resolves to false if the browser blocked the sound
+}
+
+interface StoredAlarm {
+  alarm: WakeAlarm;
+  armedFor: number | null; // epoch ms of the next ring, or null when off
+}
+
+const STORAGE_KEY = 'etherfields_wake_alarm';
+const TICK_INTERVAL = 1000; // ms
+const MISSED_AFTER = 60 * 60 * 1000; // ms; an alarm found this late (the tab was closed) is dropped
+
+const loadAlarm = (): StoredAlarm => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StoredAlarm) : { alarm: DEFAULT_WAKE_ALARM, armedFor: null };
+  } catch (error) {
+    console.error(`Error parsing localStorage key "${STORAGE_KEY}":`, error);
+    return { alarm: DEFAULT_WAKE_ALARM, armedFor: null };
+  }
+};
+
+// What the browser says about audio starting without a click. Only some browsers
+// answer (Firefox); the rest return null.
+const getAutoplayPolicy = (): string | null => {
+  const nav = navigator as Navigator & { getAutoplayPolicy?: (type: string) => string };
+  return nav.getAutoplayPolicy?.('audiocontext') ?? null;
+};
+
+// Why an alarm armed now may not be heard, if it can be told in advance
+const getRingWarning = (isReady: boolean): string | null => {
+  if (!isReady) return 'The sound isn’t started yet, so the alarm can’t go off until you press Start.';
+  if (getAutoplayPolicy() === 'disallowed') {
+    return 'This browser blocks sound that starts without a click, so the alarm will likely stay silent. Allow autoplay for this site to be sure.';
+  }
+  return null;
+};
+
+// The next time the clock shows `time` ('HH:MM'): later today, or tomorrow
+const nextOccurrence = (time: string, now = Date.now()): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(now);
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() <= now) date.setDate(date.getDate() + 1);
+  return date.getTime();
+};
+
+// --- Wake Alarm ---
+// The inverse of the sleep timer: waits for a clock time, then brings the mix up
+// from silence. Like the sleep timer it counts in wall-clock time, which keeps
+// going while the AudioContext is suspended overnight. It's one-shot, and the
+// armed time is persisted so a reload keeps it (the audio still has to be started
+// again before it can ring).
+export const useWakeAlarm = ({ isReady, onWake }: UseWakeAlarmProps) => {
+  const [stored, setStored] = useState<StoredAlarm>(loadAlarm);
+  const [blockedAlarm, setBlockedAlarm] = useState<WakeAlarm | null>(null); // Rang, but autoplay kept it quiet
+
+  const storedRef = useRef(stored);
+  const onWakeRef = useRef(onWake);
+  onWakeRef.current = onWake;
+
+  const updateStored = (next: StoredAlarm) => {
+    storedRef.current = next;
+    setStored(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const ring = useCallback(async (alarm: WakeAlarm) => {
+    const started = await onWakeRef.current(alarm);
+    setBlockedAlarm(started ? null : alarm);
+  }, []);
+
+  const tick = useCallback(() => {
+    const { alarm, armedFor } = storedRef.current;
+    if (armedFor === null || Date.now() < armedFor) return;
+
+    updateStored({ alarm, armedFor: null });
+    if (Date.now() - armedFor > MISSED_AFTER) {
+      console.warn(`Wake alarm for ${alarm.time} was missed while the page wasn't running.`);
+      return;
+    }
+    ring(alarm);
+  }, [ring]);
+
+  const isArmed = stored.armedFor !== null;
+  useEffect(() => {
+    if (!isArmed || !isReady) return;
+    tick();
+    const intervalId = window.setInterval(tick, TICK_INTERVAL);
+    return () => window.clearInterval(intervalId);
+  }, [isArmed, isReady, tick]);
+
+  const arm = useCallback((alarm: WakeAlarm) => {
+    updateStored({ alarm, armedFor: nextOccurrence(alarm.time) });
+    setBlockedAlarm(null);
+  }, []);
+
+  const disarm = useCallback(() => {
+    updateStored({ ...storedRef.current, armedFor: null });
+    setBlockedAlarm(null);
+  }, []);
+
+  // Tries again from a click, which the browser will always let play
+  const retry = useCallback(() => {
+    if (blockedAlarm) ring(blockedAlarm);
+  }, [blockedAlarm, ring]);
+
+  return { alarm: stored.alarm, armedFor: stored.armedFor, blockedAlarm, warning: getRingWarning(isReady), arm, disarm, retry };
+};
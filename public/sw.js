@@ -0,0 +1,123 @@
+// --- Etherfields Service Worker ---
+// Keeps the app shell (page, bundle, fonts, icon set, Vanta and three.js) and the
+// sounds the user pinned available offline. The page fills the audio cache itself
+// (utils/offlineCache.ts); here we only answer from it. Bump SHELL_VERSION when
+// the caching below changes: the page sees the new worker waiting and offers a reload.
+const SHELL_VERSION = 2;
+const SHELL_CACHE = `etherfields-shell-v${SHELL_VERSION}`;
+const AUDIO_CACHE = 'etherfields-audio'; // Same name as in utils/offlineCache.ts
+
+const AUDIO_FILE = /\.(mp3|ogg|wav|m4a|flac)$/i;
+const ASSET_MANIFEST = /\/audio\/manifest\.json$/; // Lists checksums, so a stale copy would reject fresh files
+const PAGE_URLS = /<(?:script|link)\b(?![^>]*rel="preconnect")[^>]*\b(?:src|href)="([^"]+)"/g;
+const CSS_URLS = /url\(\s*['"]?([^'")]+)['"]?\s*\)/g;
+
+const scopeUrl = () => self.registration.scope;
+
+const absoluteUrls = (text, pattern, base) =>
+  [...text.matchAll(pattern)]
+    .map(match => new URL(match[1], base).href)
+    .filter(url => url.startsWith('http'));
+
+// CDN files are fetched with CORS where the host allows it, opaque otherwise;
+// either kind can answer the page's own <script> and <link> requests later
+const fetchForCache = async (url) => {
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (response.ok) return response;
+  } catch {
+    // Fall through to an opaque request
+  }
+  const response = await fetch(url, { mode: 'no-cors' });
+  return response.ok || response.type === 'opaque' ? response : null;
+};
+
+// Caches the page and everything it links, then what the stylesheets link
+// (web fonts, the icon font)
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const page = await fetch(scopeUrl(), { cache: 'reload' });
+  if (!page.ok) throw new Error(`Could not fetch the app page: ${page.status}`);
+  await cache.put(scopeUrl(), page.clone());
+
+  const assetUrls = absoluteUrls(await page.text(), PAGE_URLS, scopeUrl());
+  const stylesheets = await Promise.all(assetUrls.map(async (url) => {
+    const response = await fetchForCache(url).catch(() => null);
+    if (!response) return [];
+    await cache.put(url, response.clone());
+    const isCss = response.type !== 'opaque' && (response.headers.get('Content-Type') || '').includes('text/css');
+    return isCss ? absoluteUrls(await response.text(), CSS_URLS, url) : [];
+  }));
+
+  await Promise.all(stylesheets.flat().map(async (url) => {
+    const response = await fetchForCache(url).catch(() => null);
+    if (response) await cache.put(url, response);
+  }));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('etherfields-shell-') && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data === 'skipWaiting') self.skipWaiting();
+});
+
+// The network when there is one (so a new deploy shows up), the cached copy otherwise
+const handleNetworkFirst = async (request, cacheKey) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(cacheKey, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Pinned sounds come from the audio cache; the rest stream from the network as before
+const handleAudio = async (request) => {
+  const cached = await caches.match(request, { cacheName: AUDIO_CACHE });
+  return cached || fetch(request);
+};
+
+// Everything else: answer from the cache at once and refresh it in the background
+const handleAsset = async (event) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') await cache.put(event.request, response.clone());
+    return response;
+  });
+  if (!cached) return refresh;
+  event.waitUntil(refresh.catch(() => undefined));
+  return cached;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || !url.protocol.startsWith('http') || request.headers.has('Range')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNetworkFirst(request, scopeUrl()));
+  } else if (ASSET_MANIFEST.test(url.pathname)) {
+    event.respondWith(handleNetworkFirst(request, request.url));
+  } else if (AUDIO_FILE.test(url.pathname)) {
+    event.respondWith(handleAudio(request));
+  } else {
+    event.respondWith(handleAsset(event));
+  }
+});
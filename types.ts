@@ -1,18 +1,250 @@
 import React from 'react';
 
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Slow movement applied to a source around its position. Periods are in seconds.
+export type SpatialMotion =
+  | { type: 'orbit'; radius: number; period: number }
+  | { type: 'drift'; range: number; period: number }
+  | { type: 'sway'; width: number; period: number };
+
+// Listener sits at the origin facing -z: +x is right, +y is up, +z is behind.
+export interface SpatialConfig {
+  position: Vector3;
+  motion?: SpatialMotion;
+}
+
+export type EnvironmentId = 'dry' | 'small-room' | 'forest' | 'cave' | 'cathedral' | 'deep-space';
+
+export interface EnvironmentSetting {
+  id: EnvironmentId;
+  mix: number; // 0 = dry, 1 = fully wet
+}
+
+// A theme as a mix plays it. Built from a ThemeDefinition in the theme registry;
+// the layer list and volumes are the user's to change.
 export interface Theme {
   id: string;
   name: string;
   audioSrc: string;
-  vantaEffect: 'WAVES' | 'CLOUDS' | 'HALO' | 'CLOUDS2' | 'FOG';
+  vantaEffect: string; // Backdrop id in the theme registry
   layers: string[]; // Array of sound layer IDs
   defaultThemeVolume: number;
   defaultVolumes: Record<string, number>;
+  spatial?: SpatialConfig;
+  environment?: EnvironmentSetting; // Default room; dry when omitted
+}
+
+// One Vanta option driven by the mix. A number moves by `add` per layer at full
+// volume; a colour is blended towards each `blend` colour in turn.
+export interface VisualModulation {
+  option: string;
+  base: number; // The option's value with every layer silent (a colour as 0xRRGGBB)
+  add?: Record<string, number>; // Layer id -> change at full volume
+  blend?: { layer: string; color: number; amount: number }[]; // amount: how far full volume blends, 0..1
+}
+
+// A Vanta background: the effect, how it starts, and how the layers move it
+export interface Backdrop {
+  id: string; // What mixes store as their vantaEffect
+  name: string;
+  description: string;
+  effect: string; // Vanta effect loaded by the page (window.VANTA[effect])
+  options: Record<string, number | boolean>;
+  modulation: VisualModulation[];
+  artwork?: [string, string]; // Glow and background CSS colours for the media cover art
+  hidden?: boolean; // Kept for old links and presets, not offered for custom mixes
+}
+
+// Everything that makes a theme, in the format the theme registry loads
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  subtitle: string;
+  font?: string; // CSS class for the title; the page has to provide it
+  audioSrc: string; // Relative to an asset source, or absolute
+  layers: string[];
+  defaultThemeVolume: number;
+  defaultVolumes: Record<string, number>;
+  spatial?: SpatialConfig;
+  environment?: EnvironmentSetting;
+  backdrop: string | Backdrop; // A registered backdrop's id, or one of its own
+  palette?: string[]; // Layers 'Surprise Me' picks from over this music; any layer when omitted
+}
+
+// A definition once registered: defaults filled in, its backdrop registered by id
+export type RegisteredTheme = Required<Omit<ThemeDefinition, 'backdrop' | 'spatial' | 'environment'>>
+  & Pick<ThemeDefinition, 'spatial' | 'environment'> & { backdrop: string };
+
+// One sample in an event layer's pool: a whole file, or a slice of one
+export interface EventClip {
+  src?: string; // Defaults to the layer's audioSrc
+  start?: number; // seconds into the file
+  duration?: number; // seconds; to the end of the file when omitted
+}
+
+export interface EventLayerConfig {
+  clips: EventClip[];
+  density: number; // average hits per minute with the slider at full
+  gain: [number, number]; // per-hit gain range
+  pan: number; // 0..1, how far left or right a hit may land
+  detune: number; // cents either side
+}
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+// A layer generated in the browser rather than fetched
+export interface NoiseLayerConfig {
+  color: NoiseColor;
+  tilt: number; // dB the highs are raised over the lows; negative darkens
+  cutoff?: number; // Hz, a lowpass on top of the colour
+  hum?: number; // Hz, a motor tone mixed in under the noise
+}
+
+export interface BinauralSettings {
+  mode: 'binaural' | 'isochronic'; // Two ears a beat apart (headphones), or one pulsing tone (speakers)
+  carrier: number; // Hz, the pitch you hear
+  beat: number; // Hz, the difference between the ears, or the pulse rate
+  glide: { beat: number; minutes: number } | null; // Moves the beat slowly towards this over a session
+}
+
+export interface BinauralPreset {
+  id: string;
+  name: string;
+  description: string;
+  carrier: number; // Hz
+  beat: number; // Hz
+}
+
+// A recording the user added. The file itself lives in the browser (IndexedDB,
+// see utils/uploadStore.ts) under the layer's id; the loop runs over the trimmed part.
+export interface UploadLayerConfig {
+  fileName: string;
+  trimStart: number; // seconds
+  trimEnd: number | null; // seconds; the end of the file when null
 }
 
 export interface SoundLayer {
   id: string;
   name: string;
-  audioSrc: string;
+  audioSrc: string; // Empty for generated ('noise' and 'binaural') and 'upload' layers
   icon: string;
-}
\ No newline at end of file
+  spatial?: SpatialConfig;
+  kind?: 'loop' | 'events' | 'noise' | 'binaural' | 'upload'; // 'loop' when omitted
+  events?: EventLayerConfig; // Required for 'events' layers
+  noise?: NoiseLayerConfig; // Required for 'noise' layers
+  upload?: UploadLayerConfig; // Required for 'upload' layers
+}
+
+export type AssetStatus = 'pending' | 'loading' | 'ready' | 'failed';
+
+export interface AssetProgress {
+  id: string; // Theme or layer id
+  kind: 'theme' | 'layer';
+  name: string;
+  loaded: number; // Bytes received so far
+  total: number | null; // Null when the server doesn't report a size
+  status: AssetStatus;
+  error?: string;
+}
+
+// One file in an asset manifest (audio/manifest.json under an asset source)
+export interface AssetManifestEntry {
+  id: string; // Theme or layer id
+  url: string; // Relative to the manifest, or absolute
+  sha256?: string; // Hex digest; a download that doesn't match is rejected
+  duration?: number; // seconds
+  license?: string;
+}
+
+export interface AssetManifest {
+  version: 1;
+  themes: AssetManifestEntry[];
+  layers: AssetManifestEntry[];
+}
+
+// A file to fetch: looked up by id in each source's manifest, or found at `path`
+// under the source when its manifest doesn't list it
+export interface AssetRef {
+  id?: string;
+  path: string; // Relative to an asset source, or absolute
+}
+
+// Everything needed to recreate what's playing: used by share links and presets
+export interface MixSnapshot {
+  themeId: string; // A built-in theme id, or 'custom' for the Realmcraft slot
+  baseThemeId: string; // Theme whose music plays (same as themeId unless custom)
+  layers: string[];
+  volumes: Record<string, number>; // Per-layer volume, 0..1
+  mainVolume: number; // Theme music volume, 0..1
+  vantaEffect: Theme['vantaEffect'];
+  automation?: Automation;
+  tones?: Record<string, ToneSettings>; // Layers left out play untouched
+  environment?: EnvironmentSetting;
+  positions?: Record<string, Vector3>; // Layers placed on the sound stage; others keep their default spot
+}
+
+export interface MixPreset extends MixSnapshot {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+}
+
+// Shape of the segment leading into a keyframe from the one before it
+export type AutomationCurve = 'linear' | 'smooth' | 'exponential' | 'step';
+
+export interface AutomationKeyframe {
+  time: number; // seconds from the start of the timeline
+  value: number; // 0..1
+  curve: AutomationCurve;
+}
+
+export interface Automation {
+  length: number; // seconds; the loop period, or when a one-shot run ends
+  loop: boolean;
+  lanes: Record<string, AutomationKeyframe[]>; // Keyed by layer id, or 'theme' for the music
+}
+
+export interface DriftSettings {
+  depth: number; // 0..1, how far the gain may wander either side of the slider value, relative to it
+  rate: number; // wanders per minute
+  shape: 'walk' | 'wave'; // random walk, or a steady sine LFO
+}
+
+export interface ToneSettings {
+  filter: 'none' | 'lowpass' | 'highpass';
+  cutoff: number; // Hz
+  low: number; // dB, shelf around 250Hz
+  mid: number; // dB, peak around 1kHz
+  high: number; // dB, shelf around 4kHz
+}
+
+// A sound to switch to on cue (a focus phase, the wake alarm): a theme, a saved mix,
+// or null to leave the sound alone
+export type MixTarget = { type: 'theme'; themeId: string } | { type: 'preset'; presetId: string } | null;
+
+export interface PomodoroConfig {
+  workMinutes: number;
+  breakMinutes: number;
+  cycles: number; // Work blocks in the session, each but the last followed by a break
+  work: MixTarget;
+  break: MixTarget;
+  chime: boolean; // Soft cue at each phase change
+}
+
+export interface PomodoroSession {
+  config: PomodoroConfig;
+  phase: 'work' | 'break';
+  cycle: number; // 1-based
+  endsAt: number; // epoch ms, so a reload picks up where it left off
+}
+
+export interface WakeAlarm {
+  time: string; // 'HH:MM', local time
+  target: MixTarget;
+  rampMinutes: number; // How long the mix takes to rise from silence
+}
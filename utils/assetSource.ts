@@ -0,0 +1,172 @@
+import { AssetManifest, AssetManifestEntry, AssetRef, SoundLayer, Theme } from '../types';
+import { fetchWithProgress, isWebPage } from './fetchWithProgress';
+
+// Where the audio lives when nothing else is configured: the public deployment
+export const DEFAULT_ASSET_SOURCE = 'https://6374686c.github.io/etherfields/';
+
+const MANIFEST_PATH = 'audio/manifest.json';
+const OVERRIDE_KEY = 'etherfields_asset_sources';
+const MANIFEST_TIMEOUT = 5000; // ms before a silent source is given up on
+
+export interface AssetCandidate {
+  url: string;
+  sha256?: string;
+}
+
+interface AssetSource {
+  base: string;
+  isReachable: boolean;
+  manifestUrl: string;
+  manifest: AssetManifest | null; // Null when the source has none: files are found by path
+}
+
+const splitSources = (value: string | undefined | null): string[] =>
+  (value ?? '').split(/[\s,]+/).filter(Boolean);
+
+// Relative bases (a local folder next to the app) resolve against the page; all end in '/'
+const normalizeBase = (base: string) => {
+  const url = new URL(base, document.baseURI).href;
+  return url.endsWith('/') ? url : `${url}/`;
+};
+
+// A runtime override from the address bar, kept for later visits:
+// ?assets=https://audio.example.com/etherfields,./mirror (or ?assets= to clear it)
+const readRuntimeSources = (): string[] => {
+  try {
+    const param = new URLSearchParams(window.location.search).get('assets');
+    if (param !== null) {
+      if (param.trim()) localStorage.setItem(OVERRIDE_KEY, JSON.stringify(splitSources(param)));
+      else localStorage.removeItem(OVERRIDE_KEY);
+    }
+    const stored = localStorage.getItem(OVERRIDE_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.error(`Error parsing localStorage key "${OVERRIDE_KEY}":`, error);
+    return [];
+  }
+};
+
+let sources: string[] | null = null;
+
+// The fallback chain, first choice first: the runtime override, then
+// VITE_ASSET_SOURCES from the build, then the app's own folder (public/audio),
+// then the public deployment
+export const getAssetSources = (): string[] => {
+  if (!sources) {
+    sources = Array.from(new Set([
+      ...readRuntimeSources(),
+      ...splitSources(import.meta.env.VITE_ASSET_SOURCES),
+      import.meta.env.BASE_URL,
+      DEFAULT_ASSET_SOURCE,
+    ].map(normalizeBase)));
+  }
+  return sources;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isManifestEntry = (entry: unknown): entry is AssetManifestEntry =>
+  isObject(entry) && typeof entry.id === 'string' && typeof entry.url === 'string'
+  && (entry.sha256 === undefined || typeof entry.sha256 === 'string');
+
+// Keeps the well-formed entries of a manifest, or returns null if it isn't one
+const validateManifest = (data: unknown, url: string): AssetManifest | null => {
+  if (!isObject(data) || data.version !== 1 || !Array.isArray(data.themes) || !Array.isArray(data.layers)) {
+    console.warn(`Ignoring asset manifest at ${url}: not a version 1 manifest`);
+    return null;
+  }
+  const keep = (entries: unknown[]) => entries.filter((entry): entry is AssetManifestEntry => {
+    if (isManifestEntry(entry)) return true;
+    console.warn(`Ignoring malformed entry in asset manifest at ${url}:`, entry);
+    return false;
+  });
+  return { version: 1, themes: keep(data.themes), layers: keep(data.layers) };
+};
+
+const sourceCache = new Map<string, Promise<AssetSource>>();
+
+// Fetches a source's manifest once per visit. A 404 (or an unreadable manifest)
+// just means "no manifest"; a network error or a timeout marks the whole source
+// unreachable.
+const loadSource = (base: string): Promise<AssetSource> => {
+  const cached = sourceCache.get(base);
+  if (cached) return cached;
+
+  const manifestUrl = new URL(MANIFEST_PATH, base).href;
+  const loading = (async (): Promise<AssetSource> => {
+    const controller = new AbortController();
+    const timeoutId = window.setTimeout(() => controller.abort(), MANIFEST_TIMEOUT);
+    try {
+      const response = await fetch(manifestUrl, { signal: controller.signal });
+      const data: unknown = response.ok && !isWebPage(response) ? await response.json().catch(() => null) : null;
+      const manifest = data === null ? null : validateManifest(data, manifestUrl);
+      return { base, isReachable: true, manifestUrl, manifest };
+    } catch (error) {
+      console.warn(`Asset source ${base} is unreachable:`, error);
+      return { base, isReachable: false, manifestUrl, manifest: null };
+    } finally {
+      window.clearTimeout(timeoutId);
+    }
+  })();
+  sourceCache.set(base, loading);
+  return loading;
+};
+
+const isAbsolute = (path: string) => /^[a-z][a-z\d+.-]*:/i.test(path);
+
+// Every URL the file could come from, in the order to try them. Unreachable
+// sources still get a place at the end: offline, the service worker may hold a
+// copy saved from one of them.
+export const resolveAsset = async (ref: AssetRef): Promise<AssetCandidate[]> => {
+  if (isAbsolute(ref.path)) return [{ url: ref.path }];
+
+  const loaded = await Promise.all(getAssetSources().map(loadSource));
+  const ordered = [...loaded.filter(source => source.isReachable), ...loaded.filter(source => !source.isReachable)];
+  const candidates = ordered.flatMap((source): AssetCandidate[] => {
+    if (!ref.id || !source.manifest) return [{ url: new URL(ref.path, source.base).href }];
+    // A manifest lists everything its source has, so a source that leaves the file out is skipped
+    const entry = [...source.manifest.themes, ...source.manifest.layers].find(e => e.id === ref.id);
+    return entry ? [{ url: new URL(entry.url, source.manifestUrl).href, sha256: entry.sha256 }] : [];
+  });
+  return candidates.filter((candidate, i) => candidates.findIndex(c => c.url === candidate.url) === i);
+};
+
+const toHex = (digest: ArrayBuffer) =>
+  Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Checks a download against the manifest's digest. Skipped where the browser
+// offers no digest API (pages served over plain http).
+export const verifyChecksum = async (data: ArrayBuffer, sha256: string | undefined) => {
+  if (!sha256 || !crypto.subtle) return;
+  const actual = toHex(await crypto.subtle.digest('SHA-256', data));
+  if (actual !== sha256.toLowerCase()) throw new Error(`Checksum mismatch (expected ${sha256}, got ${actual})`);
+};
+
+// Downloads a file from the first source that has a good copy, reporting progress
+// for the attempt under way. Throws the last failure if every source fails.
+export const fetchAsset = async (
+  ref: AssetRef,
+  onProgress: (loaded: number, total: number | null) => void
+): Promise<ArrayBuffer> => {
+  let lastError: unknown = new Error(`No asset source for ${ref.path}`);
+  for (const candidate of await resolveAsset(ref)) {
+    try {
+      const data = await fetchWithProgress(candidate.url, onProgress);
+      await verifyChecksum(data, candidate.sha256);
+      return data;
+    } catch (error) {
+      console.warn(`Could not fetch ${candidate.url}, trying the next source:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+export const themeAsset = (theme: Theme): AssetRef => ({ id: theme.id, path: theme.audioSrc });
+
+export const layerAsset = (layer: SoundLayer): AssetRef => ({ id: layer.id, path: layer.audioSrc });
+
+// A file an event layer's pool draws from: its own recording is listed under the layer's id
+export const clipAsset = (layer: SoundLayer, src: string): AssetRef =>
+  ({ id: src === layer.audioSrc ? layer.id : undefined, path: src });
@@ -0,0 +1,12 @@
+// Saves a blob through a temporary link so the browser shows its download UI
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
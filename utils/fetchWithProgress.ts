@@ -0,0 +1,46 @@
+// Servers set up for single-page apps answer a missing file with the app's page
+export const isWebPage = (response: Response) => (response.headers.get('Content-Type') ?? '').includes('text/html');
+
+// Fetches a URL by reading its body stream chunk by chunk, reporting the bytes
+// received so far. `total` is null when the server sends no Content-Length
+// (or a compressed one that doesn't match the decoded body).
+export const fetchWithProgress = async (
+  url: string,
+  onProgress: (loaded: number, total: number | null) => void
+): Promise<ArrayBuffer> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+  if (isWebPage(response)) throw new Error('Got a web page instead of the file (missing on the server?)');
+
+  const lengthHeader = response.headers.get('Content-Length');
+  const total = lengthHeader && !response.headers.get('Content-Encoding') ? parseInt(lengthHeader, 10) : null;
+
+  // Streams aren't available everywhere (older Safari); fall back to a single chunk
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onProgress(buffer.byteLength, buffer.byteLength);
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress(0, total);
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onProgress(loaded, total);
+  }
+
+  const result = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  onProgress(loaded, loaded);
+  return result.buffer;
+};
@@ -0,0 +1,23 @@
+// Scores how well `query` matches `text` as an in-order subsequence, ignoring
+// case and spaces in the query. Higher is better; null means no match. Runs of
+// consecutive characters and matches at the start of a word score extra, so
+// "set th" ranks "Set Thunder" above "Settings: Theme".
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let position = 0;
+  let previousMatch = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previousMatch + 1) score += 2;
+    if (index === 0 || /[\s\-/(]/.test(haystack[index - 1])) score += 3;
+    previousMatch = index;
+    position = index + 1;
+  }
+  return score - haystack.length * 0.01; // Shorter labels win ties
+};
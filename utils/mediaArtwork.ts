@@ -0,0 +1,39 @@
+import { Backdrop } from '../types';
+
+const ARTWORK_SIZE = 512;
+
+// For backdrops that don't name their own colours
+const DEFAULT_COLORS: [string, string] = ['#4a2d8c', '#1a0b3c'];
+
+const cache = new Map<string, string>();
+
+// Square cover art for the OS media overlay: a soft glow in the theme's colours,
+// drawn once per backdrop as a PNG data URL. Empty if canvas isn't available.
+export const createArtwork = (backdrop: Backdrop): string => {
+  const cached = cache.get(backdrop.id);
+  if (cached !== undefined) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = ARTWORK_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  const center = ARTWORK_SIZE / 2;
+  const paintGradient = ([glow, background]: [string, string]) => {
+    const gradient = ctx.createRadialGradient(center, center * 0.8, 0, center, center, ARTWORK_SIZE * 0.75);
+    gradient.addColorStop(0, glow);
+    gradient.addColorStop(1, background);
+    return gradient;
+  };
+  try {
+    ctx.fillStyle = paintGradient(backdrop.artwork ?? DEFAULT_COLORS);
+  } catch {
+    // addColorStop throws on a colour the canvas can't parse
+    ctx.fillStyle = paintGradient(DEFAULT_COLORS);
+  }
+  ctx.fillRect(0, 0, ARTWORK_SIZE, ARTWORK_SIZE);
+
+  const url = canvas.toDataURL('image/png');
+  cache.set(backdrop.id, url);
+  return url;
+};
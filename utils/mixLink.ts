@@ -0,0 +1,172 @@
+import { MixSnapshot, Theme, ToneSettings, EnvironmentId, Vector3 } from '../types';
+import { ALL_SOUND_LAYERS, CUSTOM_THEME_ID, isOnStage } from '../constants';
+import { getThemes, findBackdrop } from './themeRegistry';
+import { ENVIRONMENTS } from '../audio/reverb';
+import { UPLOAD_ID_PREFIX } from './uploadStore';
+
+// --- Shareable Mix Links ---
+// A mix is encoded in the URL hash as `;`-separated fields after a version tag:
+//
+//   #v4;t=custom;b=dark-drone;m=70;e=FOG;l=rain:60,campfire:40;f=rain:lp_900_2_0_-6;r=cave:40;p=rain:1.5_1_-2
+//
+//   t  theme id (a built-in theme, or `custom`)
+//   b  base theme whose music plays (must equal t unless t is `custom`)
+//   m  main (music) volume in percent, 0-100
+//   e  Vanta background effect
+//   l  comma-separated layer:volume pairs, volumes in percent (may be empty)
+//   f  optional comma-separated layer:tone pairs; a tone is filter (n, lp or hp),
+//      cutoff in Hz, then low, mid and high EQ in dB, joined by `_` (since v2)
+//   r  optional environment:wet-percent, e.g. cathedral:25 (since v3)
+//   p  optional comma-separated layer:position pairs; x, y and z in metres joined by `_` (since v4)
+//
+// Any change to this format must bump the version tag. Older versions stay readable.
+const LINK_VERSION = 'v4';
+const FIELDS_BY_VERSION: Record<string, string[]> = {
+  v1: ['t', 'b', 'm', 'e', 'l'],
+  v2: ['t', 'b', 'm', 'e', 'l', 'f'],
+  v3: ['t', 'b', 'm', 'e', 'l', 'f', 'r'],
+  v4: ['t', 'b', 'm', 'e', 'l', 'f', 'r', 'p'],
+};
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+const FILTER_CODES: Record<ToneSettings['filter'], string> = { none: 'n', lowpass: 'lp', highpass: 'hp' };
+
+const encodeTone = (tone: ToneSettings) =>
+  [FILTER_CODES[tone.filter], Math.round(tone.cutoff), tone.low, tone.mid, tone.high].join('_');
+
+const parseTone = (text: string): ToneSettings | null => {
+  const [code, ...numbers] = text.split('_');
+  const filter = (Object.keys(FILTER_CODES) as ToneSettings['filter'][]).find(key => FILTER_CODES[key] === code);
+  if (!filter || numbers.length !== 4 || !numbers.every(n => NUMBER_PATTERN.test(n))) return null;
+  const [cutoff, low, mid, high] = numbers.map(Number);
+  if (cutoff < 20 || cutoff > 20000 || ![low, mid, high].every(db => db >= -12 && db <= 12)) return null;
+  return { filter, cutoff, low, mid, high };
+};
+
+export type MixLinkResult = { ok: true; mix: MixSnapshot } | { ok: false; error: string };
+
+const toPercent = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 100);
+
+const parsePercent = (text: string | undefined): number | null => {
+  if (text === undefined || !/^\d{1,3}$/.test(text)) return null;
+  const value = parseInt(text, 10);
+  return value <= 100 ? value / 100 : null;
+};
+
+// The user's own sounds stay in their browser, so links leave them out
+const isShareable = (layerId: string) => !layerId.startsWith(UPLOAD_ID_PREFIX);
+
+export const encodeMixLink = (mix: MixSnapshot): string => {
+  const layers = mix.layers.filter(isShareable).map(id => `${id}:${toPercent(mix.volumes[id] ?? 0)}`).join(',');
+  const hash = [
+    LINK_VERSION,
+    `t=${mix.themeId}`,
+    `b=${mix.baseThemeId}`,
+    `m=${toPercent(mix.mainVolume)}`,
+    `e=${mix.vantaEffect}`,
+    `l=${layers}`,
+  ];
+  const tones = Object.entries(mix.tones ?? {}).filter(([id]) => isShareable(id)).map(([id, tone]) => `${id}:${encodeTone(tone)}`).join(',');
+  if (tones) hash.push(`f=${tones}`);
+  if (mix.environment) hash.push(`r=${mix.environment.id}:${toPercent(mix.environment.mix)}`);
+  const positions = Object.entries(mix.positions ?? {})
+    .filter(([id]) => isShareable(id))
+    .map(([id, { x, y, z }]) => `${id}:${[x, y, z].map(n => +n.toFixed(2)).join('_')}`)
+    .join(',');
+  if (positions) hash.push(`p=${positions}`);
+  return `${window.location.origin}${window.location.pathname}#${hash.join(';')}`;
+};
+
+// Returns null when the hash doesn't look like a mix link at all
+export const parseMixLink = (hash: string): MixLinkResult | null => {
+  const raw = hash.replace(/^#/, '');
+  if (!/^v\d+;/.test(raw)) return null;
+
+  let text: string;
+  try {
+    text = decodeURIComponent(raw);
+  } catch {
+    return { ok: false, error: 'The link is damaged (invalid escape sequence).' };
+  }
+
+  const [version, ...parts] = text.split(';');
+  const knownKeys = FIELDS_BY_VERSION[version];
+  if (!knownKeys) {
+    return { ok: false, error: `This link was made by a newer version of Etherfields (${version}).` };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const part of parts) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) return { ok: false, error: `Malformed field "${part}".` };
+    const key = part.slice(0, separator);
+    if (key in fields) return { ok: false, error: `Field "${key}" appears twice.` };
+    fields[key] = part.slice(separator + 1);
+  }
+
+  const unknownKeys = Object.keys(fields).filter(key => !knownKeys.includes(key));
+  if (unknownKeys.length > 0) return { ok: false, error: `Unknown field "${unknownKeys[0]}".` };
+
+  const themeId = fields.t;
+  if (themeId !== CUSTOM_THEME_ID && !getThemes().some(t => t.id === themeId)) {
+    return { ok: false, error: `Unknown theme "${themeId ?? ''}".` };
+  }
+
+  const baseThemeId = fields.b ?? themeId;
+  if (!getThemes().some(t => t.id === baseThemeId)) return { ok: false, error: `Unknown base theme "${baseThemeId}".` };
+  if (themeId !== CUSTOM_THEME_ID && baseThemeId !== themeId) {
+    return { ok: false, error: 'Only custom mixes can use another theme\'s music.' };
+  }
+
+  const mainVolume = parsePercent(fields.m);
+  if (mainVolume === null) return { ok: false, error: 'Main volume must be a percentage between 0 and 100.' };
+
+  const vantaEffect = fields.e as Theme['vantaEffect'];
+  if (!findBackdrop(vantaEffect)) return { ok: false, error: `Unknown background "${fields.e ?? ''}".` };
+
+  const layers: string[] = [];
+  const volumes: Record<string, number> = {};
+  for (const entry of (fields.l ?? '').split(',').filter(Boolean)) {
+    const [layerId, volumeText] = entry.split(':');
+    if (!ALL_SOUND_LAYERS.some(l => l.id === layerId)) return { ok: false, error: `Unknown sound layer "${layerId}".` };
+    if (layerId in volumes) return { ok: false, error: `Layer "${layerId}" appears twice.` };
+    const volume = parsePercent(volumeText);
+    if (volume === null) return { ok: false, error: `Volume for "${layerId}" must be a percentage between 0 and 100.` };
+    layers.push(layerId);
+    volumes[layerId] = volume;
+  }
+
+  const tones: Record<string, ToneSettings> = {};
+  for (const entry of (fields.f ?? '').split(',').filter(Boolean)) {
+    const [layerId, toneText] = entry.split(':');
+    if (!layers.includes(layerId)) return { ok: false, error: `Tone for "${layerId}", which isn't in the mix.` };
+    const tone = parseTone(toneText ?? '');
+    if (!tone) return { ok: false, error: `Tone for "${layerId}" is malformed.` };
+    tones[layerId] = tone;
+  }
+
+  let environment: MixSnapshot['environment'];
+  if (fields.r !== undefined) {
+    const [environmentId, mixText] = fields.r.split(':');
+    if (!ENVIRONMENTS.some(e => e.id === environmentId)) return { ok: false, error: `Unknown environment "${environmentId}".` };
+    const mix = parsePercent(mixText);
+    if (mix === null) return { ok: false, error: 'Environment mix must be a percentage between 0 and 100.' };
+    environment = { id: environmentId as EnvironmentId, mix };
+  }
+
+  const positions: Record<string, Vector3> = {};
+  for (const entry of (fields.p ?? '').split(',').filter(Boolean)) {
+    const [layerId, positionText] = entry.split(':');
+    if (!layers.includes(layerId)) return { ok: false, error: `Position for "${layerId}", which isn't in the mix.` };
+    const numbers = (positionText ?? '').split('_');
+    if (numbers.length !== 3 || !numbers.every(n => NUMBER_PATTERN.test(n))) {
+      return { ok: false, error: `Position for "${layerId}" is malformed.` };
+    }
+    const [x, y, z] = numbers.map(Number);
+    if (!isOnStage({ x, y, z })) return { ok: false, error: `Position for "${layerId}" is off the sound stage.` };
+    positions[layerId] = { x, y, z };
+  }
+
+  return { ok: true, mix: { themeId, baseThemeId, layers, volumes, mainVolume, vantaEffect, tones, environment, positions } };
+};
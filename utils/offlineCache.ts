@@ -0,0 +1,104 @@
+import { AssetRef, SoundLayer, Theme } from '../types';
+import { clipSources } from '../audio/EventPlayer';
+import { resolveAsset, verifyChecksum, themeAsset, layerAsset, clipAsset } from './assetSource';
+import { isWebPage } from './fetchWithProgress';
+
+export const AUDIO_CACHE = 'etherfields-audio'; // Same name as in public/sw.js
+
+export const isOfflineSupported = () => typeof window !== 'undefined' && 'caches' in window && 'serviceWorker' in navigator;
+
+// Every file the layers play from; generated layers have none
+export const layerFiles = (layers: SoundLayer[]): AssetRef[] =>
+  layers.flatMap(layer => {
+    if (layer.kind === 'noise' || layer.kind === 'binaural' || !layer.audioSrc) return [];
+    return layer.kind === 'events' ? clipSources(layer).map(src => clipAsset(layer, src)) : [layerAsset(layer)];
+  });
+
+export const themeFiles = (theme: Theme): AssetRef[] => (theme.audioSrc ? [themeAsset(theme)] : []);
+
+// The cached copy of a file, from whichever source it was saved from
+const findCached = async (cache: Cache, ref: AssetRef): Promise<{ url: string; response: Response } | null> => {
+  for (const { url } of await resolveAsset(ref)) {
+    const response = await cache.match(url);
+    if (response) return { url, response };
+  }
+  return null;
+};
+
+// Bytes the cached copies of `files` take up. Missing files count as nothing.
+export const cachedSize = async (files: AssetRef[]): Promise<{ bytes: number; cachedCount: number }> => {
+  const cache = await caches.open(AUDIO_CACHE);
+  let bytes = 0;
+  let cachedCount = 0;
+  for (const file of files) {
+    const cached = await findCached(cache, file);
+    if (!cached) continue;
+    cachedCount++;
+    const length = cached.response.headers.get('Content-Length');
+    bytes += length && !cached.response.headers.get('Content-Encoding') ? parseInt(length, 10) : (await cached.response.blob()).size;
+  }
+  return { bytes, cachedCount };
+};
+
+// Every copy of a file, whichever source it came from
+export const removeFiles = async (files: AssetRef[]) => {
+  const cache = await caches.open(AUDIO_CACHE);
+  for (const file of files) {
+    await Promise.all((await resolveAsset(file)).map(({ url }) => cache.delete(url)));
+  }
+};
+
+// Saves a file from the first source with a good copy
+const saveFile = async (cache: Cache, file: AssetRef, refresh: boolean) => {
+  let lastError: unknown = new Error(`No asset source for ${file.path}`);
+  for (const candidate of await resolveAsset(file)) {
+    try {
+      const response = await fetch(candidate.url, { cache: refresh ? 'reload' : 'default' });
+      if (!response.ok || isWebPage(response)) throw new Error(`Not found at ${candidate.url} (status ${response.status})`);
+      await verifyChecksum(await response.clone().arrayBuffer(), candidate.sha256);
+      await cache.put(candidate.url, response);
+      return;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// Downloads whatever isn't cached yet (or everything, with `refresh`), one file at a time
+export const cacheFiles = async (files: AssetRef[], onProgress: (done: number, total: number) => void, refresh = false) => {
+  const cache = await caches.open(AUDIO_CACHE);
+  onProgress(0, files.length);
+  for (let i = 0; i < files.length; i++) {
+    // The service worker answers from this cache first, so a stale copy has to go before refetching
+    if (refresh) await removeFiles([files[i]]);
+    if (!(await findCached(cache, files[i]))) await saveFile(cache, files[i], refresh);
+    onProgress(i + 1, files.length);
+  }
+};
+
+// The cached files whose copy on the server has changed since, judged by ETag,
+// then Last-Modified, then size (whichever both copies show; cross-origin servers
+// often hide the ETag). Files we can't reach are left alone.
+export const findChangedFiles = async (files: AssetRef[]): Promise<AssetRef[]> => {
+  const cache = await caches.open(AUDIO_CACHE);
+  const changed = await Promise.all(files.map(async (file) => {
+    const cached = await findCached(cache, file);
+    if (!cached) return false;
+    try {
+      const current = await fetch(cached.url, { method: 'HEAD', cache: 'no-cache' });
+      if (!current.ok) return false;
+      const header = ['ETag', 'Last-Modified', 'Content-Length'].find(name => cached.response.headers.has(name) && current.headers.has(name));
+      return header !== undefined && cached.response.headers.get(header) !== current.headers.get(header);
+    } catch {
+      return false;
+    }
+  }));
+  return files.filter((_, i) => changed[i]);
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
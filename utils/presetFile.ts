@@ -0,0 +1,301 @@
+import { MixPreset, MixSnapshot, Automation, AutomationCurve, AutomationKeyframe, ToneSettings, Vector3, SoundLayer } from '../types';
+import { ALL_SOUND_LAYERS, CUSTOM_THEME_ID, isOnStage } from '../constants';
+import { getThemes, findBackdrop } from './themeRegistry';
+import { ENVIRONMENTS } from '../audio/reverb';
+import { StoredUpload, UPLOAD_ID_PREFIX } from './uploadStore';
+
+// --- Preset Files ---
+// Presets travel as JSON documents of this shape (schema version 2):
+//
+//   {
+//     "format": "etherfields-presets",
+//     "version": 2,
+//     "exportedAt": "2025-01-01T00:00:00.000Z",
+//     "presets": [
+//       {
+//         "name": "Rainy focus",
+//         "themeId": "custom",            // built-in theme id, or "custom"
+//         "baseThemeId": "focus-meditation",
+//         "layers": ["rain", "campfire"],
+//         "volumes": { "rain": 0.6, "campfire": 0.4 },
+//         "mainVolume": 0.7,
+//         "vantaEffect": "FOG",
+//         "tones": {                      // optional, per layer
+//           "rain": { "filter": "lowpass", "cutoff": 900, "low": 2, "mid": 0, "high": -6 }
+//         },
+//         "environment": { "id": "cave", "mix": 0.4 },  // optional
+//         "positions": {                  // optional, metres from the listener (-z is ahead)
+//           "rain": { "x": 1.5, "y": 1, "z": -2 }
+//         },
+//         "automation": {                 // optional
+//           "length": 3600,               // seconds
+//           "loop": false,
+//           "lanes": {                    // layer ids, or "theme" for the music
+//             "rain": [{ "time": 1200, "value": 0.6, "curve": "smooth" }]
+//           }
+//         }
+//       }
+//     ],
+//     "sounds": [                         // optional: the user's own recordings the presets use
+//       {
+//         "id": "upload-lq2x0k1a",
+//         "name": "Office hum",
+//         "icon": "fa-solid fa-fan",      // a Font Awesome class
+//         "fileName": "hum.mp3",
+//         "trimStart": 0,                 // seconds
+//         "trimEnd": 42.5,                // seconds, or null for the end of the file
+//         "type": "audio/mpeg",
+//         "data": "SUQzBAAAAAAA..."        // the file, base64
+//       }
+//     ]
+//   }
+//
+// Volumes are 0..1; curves are linear, smooth, exponential or step. Tone filters are
+// none, lowpass or highpass with a cutoff in Hz; EQ bands are in dB (-12..12).
+// Environments are dry, small-room, forest, cave, cathedral or deep-space. Files with a higher version are refused rather than guessed at.
+//
+// Version 1 had no tones, environment, positions, automation or sounds; those files
+// still read as they are. Bump the version whenever the format gains a field.
+export const PRESET_FILE_FORMAT = 'etherfields-presets';
+export const PRESET_FILE_VERSION = 2;
+
+export type ImportedPreset = MixSnapshot & { name: string };
+
+export type PresetFileResult =
+  | { ok: true; presets: ImportedPreset[]; sounds: StoredUpload[]; warnings: string[] }
+  | { ok: false; error: string };
+
+const toBase64 = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).slice((reader.result as string).indexOf(',') + 1));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const fromBase64 = (data: string, type: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+// Uploads travel inside the file, but only the ones the exported presets play
+export const serializePresets = async (presets: MixPreset[], uploads: StoredUpload[] = []): Promise<string> => {
+  const entries = presets.map(({ name, themeId, baseThemeId, layers, volumes, mainVolume, vantaEffect, tones, environment, positions, automation }) => ({
+    name, themeId, baseThemeId, layers, volumes, mainVolume, vantaEffect, tones, environment, positions, automation,
+  }));
+  const used = uploads.filter(upload => presets.some(preset => preset.layers.includes(upload.layer.id)));
+  const sounds = await Promise.all(used.map(async ({ layer, file }) => ({
+    id: layer.id,
+    name: layer.name,
+    icon: layer.icon,
+    fileName: layer.upload?.fileName,
+    trimStart: layer.upload?.trimStart ?? 0,
+    trimEnd: layer.upload?.trimEnd ?? null,
+    type: file.type,
+    data: await toBase64(file),
+  })));
+  const file = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: entries,
+    ...(sounds.length > 0 && { sounds }),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isVolume = (value: unknown): value is number => isNumber(value) && value >= 0 && value <= 1;
+
+const CURVES: AutomationCurve[] = ['linear', 'smooth', 'exponential', 'step'];
+const FILTERS: ToneSettings['filter'][] = ['none', 'lowpass', 'highpass'];
+
+const isCurve = (value: unknown): value is AutomationCurve => CURVES.some(curve => curve === value);
+const isFilter = (value: unknown): value is ToneSettings['filter'] => FILTERS.some(filter => filter === value);
+const isBandGain = (value: unknown): value is number => isNumber(value) && value >= -12 && value <= 12;
+
+const parseTone = (data: unknown): ToneSettings | null => {
+  if (!isObject(data) || !isFilter(data.filter)) return null;
+  const { filter, cutoff, low, mid, high } = data;
+  if (!isNumber(cutoff) || cutoff < 20 || cutoff > 20000) return null;
+  if (!isBandGain(low) || !isBandGain(mid) || !isBandGain(high)) return null;
+  return { filter, cutoff, low, mid, high };
+};
+
+const parseSound = (data: unknown): StoredUpload | null => {
+  if (!isObject(data) || typeof data.id !== 'string' || !data.id.startsWith(UPLOAD_ID_PREFIX)) return null;
+  const { id, name, icon, trimStart, trimEnd, fileName, type } = data;
+  if (!isText(name) || typeof icon !== 'string') return null;
+  if (!isNumber(trimStart) || trimStart < 0) return null;
+  const end = trimEnd === null ? null : isNumber(trimEnd) && trimEnd > trimStart ? trimEnd : undefined;
+  if (end === undefined) return null;
+  if (typeof data.data !== 'string') return null;
+  try {
+    const layer: SoundLayer = {
+      id,
+      name: name.trim(),
+      icon,
+      audioSrc: '',
+      kind: 'upload',
+      upload: { fileName: typeof fileName === 'string' ? fileName : name, trimStart, trimEnd: end },
+    };
+    return { layer, file: fromBase64(data.data, typeof type === 'string' ? type : ''), createdAt: Date.now() };
+  } catch {
+    return null; // Not base64
+  }
+};
+
+type IsKnownLayer = (layerId: string) => boolean;
+
+const parseKeyframe = (data: unknown): AutomationKeyframe | null => {
+  if (!isObject(data) || !isNumber(data.time) || data.time < 0 || !isVolume(data.value) || !isCurve(data.curve)) return null;
+  return { time: data.time, value: data.value, curve: data.curve };
+};
+
+const parseAutomation = (data: unknown, name: string, isKnownLayer: IsKnownLayer, warn: (message: string) => void): Automation | string => {
+  if (!isObject(data)) return `"${name}" has an invalid automation timeline.`;
+  if (!isNumber(data.length) || !(data.length > 0)) return `"${name}" has an invalid automation length.`;
+  const length = data.length;
+  if (typeof data.loop !== 'boolean') return `"${name}" has an invalid automation loop setting.`;
+  if (!isObject(data.lanes)) return `"${name}" has no automation lanes.`;
+
+  const lanes: Record<string, AutomationKeyframe[]> = {};
+  for (const [laneId, keyframes] of Object.entries(data.lanes)) {
+    if (laneId !== 'theme' && !isKnownLayer(laneId)) {
+      warn(`"${name}": automation for unknown layer "${laneId}" was left out.`);
+      continue;
+    }
+    if (!Array.isArray(keyframes)) return `"${name}" has an invalid automation lane "${laneId}".`;
+    const parsed = keyframes.map(parseKeyframe);
+    if (parsed.some(keyframe => keyframe === null)) return `"${name}" has an invalid keyframe in automation lane "${laneId}".`;
+    // Keyframes past the end would never play, so the file isn't what it claims
+    if ((parsed as AutomationKeyframe[]).some(keyframe => keyframe.time > length)) return `"${name}" has an invalid automation timeline.`;
+    lanes[laneId] = parsed as AutomationKeyframe[];
+  }
+  return { length, loop: data.loop, lanes };
+};
+
+// Validates one entry. Problems that make the preset unusable return a string;
+// unknown layers are dropped but each one is reported through `warn`.
+const parseEntry = (entry: unknown, label: string, isKnownLayer: IsKnownLayer, warn: (message: string) => void): ImportedPreset | string => {
+  if (!isObject(entry)) return `${label} is not an object.`;
+  if (!isText(entry.name)) return `${label} has no name.`;
+  const name = entry.name.trim();
+
+  const { themeId, vantaEffect } = entry;
+  if (typeof themeId !== 'string' || (themeId !== CUSTOM_THEME_ID && !getThemes().some(t => t.id === themeId))) {
+    return `"${name}" uses unknown theme "${themeId}".`;
+  }
+  const baseThemeId = entry.baseThemeId ?? themeId;
+  if (typeof baseThemeId !== 'string' || !getThemes().some(t => t.id === baseThemeId)) return `"${name}" uses unknown base theme "${baseThemeId}".`;
+  if (themeId !== CUSTOM_THEME_ID && baseThemeId !== themeId) return `"${name}" mixes music from another theme, which only custom mixes can do.`;
+  if (typeof vantaEffect !== 'string' || !findBackdrop(vantaEffect)) return `"${name}" uses unknown background "${vantaEffect}".`;
+  if (!isVolume(entry.mainVolume)) return `"${name}" has an invalid main volume.`;
+  if (!Array.isArray(entry.layers)) return `"${name}" has no layer list.`;
+  if (entry.volumes !== undefined && !isObject(entry.volumes)) return `"${name}" has invalid volumes.`;
+
+  const layers: string[] = [];
+  const volumes: Record<string, number> = {};
+  for (const layerId of entry.layers) {
+    if (typeof layerId !== 'string' || !isKnownLayer(layerId)) {
+      warn(`"${name}": unknown layer "${layerId}" was left out.`);
+      continue;
+    }
+    if (layers.includes(layerId)) continue;
+    const volume = entry.volumes?.[layerId];
+    if (volume !== undefined && !isVolume(volume)) return `"${name}" has an invalid volume for "${layerId}".`;
+    layers.push(layerId);
+    volumes[layerId] = volume ?? 0.5;
+  }
+
+  const preset: ImportedPreset = { name, themeId, baseThemeId, layers, volumes, mainVolume: entry.mainVolume, vantaEffect };
+  if (entry.tones !== undefined) {
+    if (!isObject(entry.tones)) return `"${name}" has invalid tone settings.`;
+    const tones: Record<string, ToneSettings> = {};
+    for (const [layerId, data] of Object.entries(entry.tones)) {
+      if (!layers.includes(layerId)) {
+        warn(`"${name}": tone settings for "${layerId}", which isn't in the mix, were left out.`);
+        continue;
+      }
+      const tone = parseTone(data);
+      if (!tone) return `"${name}" has invalid tone settings for "${layerId}".`;
+      tones[layerId] = tone;
+    }
+    preset.tones = tones;
+  }
+  if (entry.environment !== undefined) {
+    const environment = entry.environment;
+    const environmentId = isObject(environment) ? environment.id : undefined;
+    const known = ENVIRONMENTS.find(e => e.id === environmentId);
+    if (!isObject(environment) || !known) return `"${name}" uses unknown environment "${environmentId}".`;
+    if (!isVolume(environment.mix)) return `"${name}" has an invalid environment mix.`;
+    preset.environment = { id: known.id, mix: environment.mix };
+  }
+  if (entry.positions !== undefined) {
+    if (!isObject(entry.positions)) return `"${name}" has invalid positions.`;
+    const positions: Record<string, Vector3> = {};
+    for (const [layerId, data] of Object.entries(entry.positions)) {
+      if (!layers.includes(layerId)) {
+        warn(`"${name}": the position of "${layerId}", which isn't in the mix, was left out.`);
+        continue;
+      }
+      if (!isObject(data) || !isNumber(data.x) || !isNumber(data.y) || !isNumber(data.z)) {
+        return `"${name}" has an invalid position for "${layerId}".`;
+      }
+      const position = { x: data.x, y: data.y, z: data.z };
+      if (!isOnStage(position)) return `"${name}" puts "${layerId}" off the sound stage.`;
+      positions[layerId] = position;
+    }
+    preset.positions = positions;
+  }
+  if (entry.automation !== undefined) {
+    const automation = parseAutomation(entry.automation, name, isKnownLayer, warn);
+    if (typeof automation === 'string') return automation;
+    preset.automation = automation;
+  }
+  return preset;
+};
+
+// `uploadedLayers` are the user's own sounds already in this browser; presets may
+// use those too, as well as any the file brings along
+export const parsePresetFile = (text: string, uploadedLayers: SoundLayer[] = []): PresetFileResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+
+  if (!isObject(data) || data.format !== PRESET_FILE_FORMAT) return { ok: false, error: 'This is not an Etherfields preset file.' };
+  const { version } = data;
+  if (!isNumber(version) || version < 1) return { ok: false, error: 'The preset file has no valid schema version.' };
+  if (version > PRESET_FILE_VERSION) {
+    return { ok: false, error: `The preset file uses schema version ${version}; this version of Etherfields reads up to ${PRESET_FILE_VERSION}.` };
+  }
+  if (!Array.isArray(data.presets)) return { ok: false, error: 'The preset file has no preset list.' };
+
+  if (data.sounds !== undefined && !Array.isArray(data.sounds)) return { ok: false, error: 'The preset file has an invalid sound list.' };
+  const soundEntries: unknown[] = Array.isArray(data.sounds) ? data.sounds : [];
+
+  const warnings: string[] = [];
+  const sounds: StoredUpload[] = [];
+  soundEntries.forEach((entry, index) => {
+    const sound = parseSound(entry);
+    if (sound) sounds.push(sound);
+    else warnings.push(`Skipped: sound #${index + 1} (${isObject(entry) && typeof entry.name === 'string' ? entry.name : 'unnamed'}) is damaged.`);
+  });
+
+  const isKnownLayer: IsKnownLayer = layerId =>
+    [...ALL_SOUND_LAYERS, ...uploadedLayers, ...sounds.map(sound => sound.layer)].some(l => l.id === layerId);
+  const presets: ImportedPreset[] = [];
+  data.presets.forEach((entry: unknown, index: number) => {
+    const result = parseEntry(entry, `Preset #${index + 1}`, isKnownLayer, message => warnings.push(message));
+    if (typeof result === 'string') warnings.push(`Skipped: ${result}`);
+    else presets.push(result);
+  });
+
+  return { ok: true, presets, sounds, warnings };
+};
@@ -0,0 +1,278 @@
+import { Backdrop, EnvironmentSetting, RegisteredTheme, SpatialConfig, Theme, VisualModulation } from '../types';
+import { ALL_SOUND_LAYERS, BUILT_IN_BACKDROPS, BUILT_IN_THEMES, CUSTOM_THEME_ID } from '../constants';
+import { ENVIRONMENTS } from '../audio/reverb';
+import { isWebPage } from './fetchWithProgress';
+
+// --- Theme Registry ---
+// Every theme and backdrop the app knows, built-in or added at runtime. Nothing
+// gets in without passing validation; a definition that fails is reported and
+// left out, and the rest of its file still loads. Theme files look like this
+// (schema version 1):
+//
+//   {
+//     "format": "etherfields-themes",
+//     "version": 1,
+//     "backdrops": [                     // optional: backdrops themes can share by id
+//       { "id": "night-fog", "name": "Night Fog", "description": "Low, dark mist.", "effect": "FOG",
+//         "options": { "highlightColor": 5592405, "speed": 0.8 }, "modulation": [] }
+//     ],
+//     "themes": [
+//       {
+//         "id": "night-train",            // letters, digits, '-' and '_'
+//         "name": "Night Train",
+//         "subtitle": "A sleeper carriage rolling through the dark",
+//         "font": "font-poppins",         // optional, a CSS class the page provides
+//         "audioSrc": "https://audio.example.com/night_train.mp3",
+//         "layers": ["rain", "fan_hum"],
+//         "defaultThemeVolume": 0.7,
+//         "defaultVolumes": { "rain": 0.4, "fan_hum": 0.2 },
+//         "environment": { "id": "small-room", "mix": 0.2 },   // optional
+//         "palette": ["rain", "thunder", "fan_hum"],            // optional, for 'Surprise Me'
+//         "backdrop": "night-fog"         // a backdrop id, or a backdrop object of its own
+//       }
+//     ]
+//   }
+//
+// A backdrop's modulation rules move one Vanta option each: a number by `add`
+// (layer id -> change at full volume), or a colour through `blend` steps
+// ({ "layer", "color", "amount" }, applied in order). Colours are 0xRRGGBB integers.
+// A backdrop's optional "artwork" is a pair of CSS colours (glow, then background)
+// for the media cover art.
+export const THEME_FILE_FORMAT = 'etherfields-themes';
+export const THEME_FILE_VERSION = 1;
+
+export const DEFAULT_THEME_FONT = 'font-josefin-sans';
+
+export interface ThemeRegistrySnapshot {
+  themes: Theme[]; // As mixes play them, in the order they were registered
+  definitions: RegisteredTheme[];
+  backdrops: Backdrop[];
+}
+
+let registry: ThemeRegistrySnapshot = { themes: [], definitions: [], backdrops: [] };
+const listeners = new Set<() => void>();
+
+const THEME_FILE_TIMEOUT = 10000; // ms before a theme file that hasn't arrived is given up on
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/; // Safe inside share links
+const MOTION_SIZES: Record<string, string> = { orbit: 'radius', drift: 'range', sway: 'width' }; // Motion type -> its size field
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isVolume = (value: unknown): value is number => isNumber(value) && value >= 0 && value <= 1;
+const isColor = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffffff;
+const isLayerId = (value: unknown): value is string => ALL_SOUND_LAYERS.some(layer => layer.id === value);
+// Anything the browser takes as a CSS colour (any non-empty text where it can't be asked)
+const isCssColor = (value: unknown): value is string => isText(value) && (typeof CSS === 'undefined' || CSS.supports('color', value));
+const isOption = (value: unknown): value is number | boolean => isNumber(value) || typeof value === 'boolean';
+const isListOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] => Array.isArray(value) && value.every(isItem);
+const isRecordOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is Record<string, T> =>
+  isObject(value) && Object.values(value).every(isItem);
+
+type BlendStep = NonNullable<VisualModulation['blend']>[number];
+const isBlendStep = (step: unknown): step is BlendStep => isObject(step) && isLayerId(step.layer) && isColor(step.color) && isVolume(step.amount);
+
+const isEnvironment = (value: unknown): value is EnvironmentSetting => {
+  if (!isObject(value)) return false;
+  const { id, mix } = value;
+  return ENVIRONMENTS.some(e => e.id === id) && isVolume(mix);
+};
+
+const parseModulation = (rule: unknown, index: number): VisualModulation | string => {
+  const label = `modulation #${index + 1}`;
+  if (!isObject(rule) || !isText(rule.option)) return `${label} names no option`;
+  const { option, base, add, blend } = rule;
+  if (!isNumber(base)) return `${label} (${option}) has no base value`;
+  if ((add === undefined) === (blend === undefined)) return `${label} (${option}) needs either "add" or "blend"`;
+
+  if (add !== undefined) {
+    if (!isRecordOf(add, isNumber) || !Object.keys(add).every(isLayerId)) {
+      return `${label} (${option}) adds an unknown layer or an amount that isn't a number`;
+    }
+    return { option, base, add: { ...add } };
+  }
+  if (!isColor(base)) return `${label} (${option}) blends from a base that isn't a colour`;
+  if (!isListOf(blend, isBlendStep)) return `${label} (${option}) has a blend step with an unknown layer, a bad colour or an amount outside 0..1`;
+  return { option, base, blend: blend.map(({ layer, color, amount }) => ({ layer, color, amount })) };
+};
+
+const parseBackdrop = (data: unknown): Backdrop | string => {
+  if (!isObject(data) || !isText(data.id) || !ID_PATTERN.test(data.id)) return 'a backdrop has a missing or malformed id';
+  const { id, name, description, effect, options, artwork, hidden, modulation: rules = [] } = data;
+  const label = `backdrop "${id}"`;
+  if (registry.backdrops.some(backdrop => backdrop.id === id)) return `${label} is already registered`;
+  if (!isText(name) || typeof description !== 'string') return `${label} needs a name and a description`;
+  if (!isText(effect)) return `${label} names no Vanta effect`;
+  if (window.VANTA && !window.VANTA[effect]) return `${label} uses Vanta effect "${effect}", which this page doesn't load`;
+  if (!isRecordOf(options, isOption)) return `${label} has options that aren't numbers or true/false`;
+  if (artwork !== undefined && !(isListOf(artwork, isCssColor) && artwork.length === 2)) {
+    return `${label} has artwork that isn't two CSS colours`;
+  }
+  if (hidden !== undefined && typeof hidden !== 'boolean') return `${label} has a "hidden" that isn't true/false`;
+
+  if (!Array.isArray(rules)) return `${label} has a modulation that isn't a list`;
+
+  const modulation: VisualModulation[] = [];
+  for (const [index, rule] of rules.entries()) {
+    const parsed = parseModulation(rule, index);
+    if (typeof parsed === 'string') return `${label}: ${parsed}`;
+    modulation.push(parsed);
+  }
+
+  const backdrop: Backdrop = { id, name: name.trim(), description, effect, options: { ...options }, modulation };
+  if (artwork) backdrop.artwork = [artwork[0], artwork[1]];
+  if (hidden) backdrop.hidden = true;
+  return backdrop;
+};
+
+const isSpatial = (data: unknown): data is SpatialConfig => {
+  if (!isObject(data) || !isObject(data.position) || ![data.position.x, data.position.y, data.position.z].every(isNumber)) return false;
+  const { motion } = data;
+  if (motion === undefined) return true;
+  const size = isObject(motion) && typeof motion.type === 'string' ? MOTION_SIZES[motion.type] : undefined;
+  return !!size && isObject(motion) && isNumber(motion[size]) && isNumber(motion.period) && motion.period > 0;
+};
+
+// Checks a theme definition. Its own backdrop, if it brings one, comes back
+// alongside so both can be registered together.
+const parseTheme = (data: unknown): { theme: RegisteredTheme; backdrop?: Backdrop } | string => {
+  if (!isObject(data) || !isText(data.id) || !ID_PATTERN.test(data.id)) return 'a theme has a missing or malformed id';
+  const { id, name, subtitle, font = DEFAULT_THEME_FONT, audioSrc, layers, defaultThemeVolume, defaultVolumes, spatial, environment, palette = [] } = data;
+  const label = `theme "${id}"`;
+  if (id === CUSTOM_THEME_ID) return `${label} uses an id kept for custom mixes`;
+  if (registry.definitions.some(theme => theme.id === id)) return `${label} is already registered`;
+  if (!isText(name) || typeof subtitle !== 'string') return `${label} needs a name and a subtitle`;
+  if (!isText(font)) return `${label} has an empty font class`;
+  if (!isText(audioSrc)) return `${label} has no audioSrc`;
+  if (!isListOf(layers, isLayerId)) return `${label} lists an unknown sound layer`;
+  if (!isVolume(defaultThemeVolume)) return `${label} has a defaultThemeVolume outside 0..1`;
+  if (!isRecordOf(defaultVolumes, isVolume) || !Object.keys(defaultVolumes).every(layerId => layers.includes(layerId))) {
+    return `${label} has defaultVolumes for layers it doesn't list, or outside 0..1`;
+  }
+  if (spatial !== undefined && !isSpatial(spatial)) return `${label} has an invalid spatial position`;
+  if (environment !== undefined && !isEnvironment(environment)) return `${label} has an unknown environment or a mix outside 0..1`;
+  if (!isListOf(palette, isLayerId)) return `${label} has an unknown layer in its palette`;
+
+  let backdrop: Backdrop | undefined;
+  let backdropId: string;
+  if (typeof data.backdrop === 'string') {
+    backdropId = data.backdrop;
+    if (!registry.backdrops.some(b => b.id === backdropId)) return `${label} uses unknown backdrop "${backdropId}"`;
+  } else {
+    const parsed = parseBackdrop(data.backdrop);
+    if (typeof parsed === 'string') return `${label}: ${parsed}`;
+    backdrop = parsed;
+    backdropId = parsed.id;
+  }
+
+  const theme: RegisteredTheme = {
+    id,
+    name: name.trim(),
+    subtitle,
+    font,
+    audioSrc,
+    layers: Array.from(new Set(layers)),
+    defaultThemeVolume,
+    defaultVolumes: { ...defaultVolumes },
+    spatial: isSpatial(spatial) ? spatial : undefined,
+    environment: isEnvironment(environment) ? { id: environment.id, mix: environment.mix } : undefined,
+    backdrop: backdropId,
+    palette,
+  };
+  return { theme, backdrop };
+};
+
+// A registered definition in the shape mixes keep (and store) of a theme
+export const toTheme = (definition: RegisteredTheme): Theme => ({
+  id: definition.id,
+  name: definition.name,
+  audioSrc: definition.audioSrc,
+  vantaEffect: definition.backdrop,
+  layers: definition.layers,
+  defaultThemeVolume: definition.defaultThemeVolume,
+  defaultVolumes: definition.defaultVolumes,
+  ...(definition.spatial && { spatial: definition.spatial }),
+  ...(definition.environment && { environment: definition.environment }),
+});
+
+// Swaps in a new snapshot, so React sees the change
+const update = (patch: { definitions?: RegisteredTheme[]; backdrops?: Backdrop[] }) => {
+  const definitions = patch.definitions ?? registry.definitions;
+  registry = { definitions, backdrops: patch.backdrops ?? registry.backdrops, themes: definitions.map(toTheme) };
+  listeners.forEach(listener => listener());
+};
+
+// Each returns why the definition was refused, or null once it's registered
+export const registerBackdrop = (data: unknown): string | null => {
+  const backdrop = parseBackdrop(data);
+  if (typeof backdrop === 'string') return backdrop;
+  update({ backdrops: [...registry.backdrops, backdrop] });
+  return null;
+};
+
+export const registerTheme = (data: unknown): string | null => {
+  const parsed = parseTheme(data);
+  if (typeof parsed === 'string') return parsed;
+  update({
+    definitions: [...registry.definitions, parsed.theme],
+    backdrops: parsed.backdrop ? [...registry.backdrops, parsed.backdrop] : registry.backdrops,
+  });
+  return null;
+};
+
+// Registers what it can from a theme file's contents: backdrops first, so themes
+// can use them. Returns every refusal.
+export const registerThemeFile = (data: unknown): string[] => {
+  if (!isObject(data) || data.format !== THEME_FILE_FORMAT) return ['this is not an Etherfields theme file'];
+  const { version, themes, backdrops = [] } = data;
+  if (!isNumber(version) || version < 1 || version > THEME_FILE_VERSION) {
+    return [`schema version ${version} isn't one this version of Etherfields reads (up to ${THEME_FILE_VERSION})`];
+  }
+  if (!Array.isArray(themes) || !Array.isArray(backdrops)) return ['the theme or backdrop list is missing'];
+  return [
+    ...backdrops.map(registerBackdrop),
+    ...themes.map(registerTheme),
+  ].filter((error): error is string => error !== null);
+};
+
+// Fetches a theme file and registers what it can, reporting refusals in the console.
+// The app waits for configured files before it starts, so a silent host is given up on.
+export const loadThemeFile = async (url: string) => {
+  const controller = new AbortController();
+  const timeoutId = window.setTimeout(() => controller.abort(), THEME_FILE_TIMEOUT);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok || isWebPage(response)) throw new Error(`No theme file at ${url} (status ${response.status})`);
+    registerThemeFile(await response.json()).forEach(error => console.warn(`Ignoring part of theme file ${url}: ${error}`));
+  } finally {
+    window.clearTimeout(timeoutId);
+  }
+};
+
+// Theme files named by the build (VITE_THEME_FILES, comma separated; relative
+// URLs resolve against the page)
+export const loadConfiguredThemeFiles = () => Promise.all(
+  (import.meta.env.VITE_THEME_FILES ?? '').split(/[\s,]+/).filter(Boolean).map(url =>
+    loadThemeFile(new URL(url, document.baseURI).href).catch(error => console.warn('Could not load theme file:', error))
+  )
+);
+
+export const subscribeToThemeRegistry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getThemeRegistry = () => registry;
+
+export const getThemes = () => registry.themes;
+
+export const findThemeDefinition = (id: string) => registry.definitions.find(theme => theme.id === id);
+
+export const findBackdrop = (id: string) => registry.backdrops.find(backdrop => backdrop.id === id);
+
+// The built-ins go through the same checks; a refusal here is a bug in constants.ts
+[...BUILT_IN_THEMES.map(registerTheme), ...BUILT_IN_BACKDROPS.map(registerBackdrop)]
+  .filter(error => error !== null)
+  .forEach(error => console.error(`Built-in theme registry entry refused: ${error}`));
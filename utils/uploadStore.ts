@@ -0,0 +1,64 @@
+import { SoundLayer } from '../types';
+
+// --- Uploaded Sounds ---
+// The user's own recordings, kept in IndexedDB so they survive reloads. Each
+// record holds the layer definition next to the file it plays.
+export interface StoredUpload {
+  layer: SoundLayer; // kind 'upload'
+  file: Blob;
+  createdAt: number; // epoch ms
+}
+
+const DB_NAME = 'etherfields';
+const DB_VERSION = 1;
+const STORE = 'uploads';
+
+export const UPLOAD_ID_PREFIX = 'upload-';
+
+export const isUploadSupported = () => typeof indexedDB !== 'undefined';
+
+export const createUploadId = () => `${UPLOAD_ID_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'layer.id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => { database = null; }); // Let the next call try again
+  }
+  return database;
+};
+
+// Runs one request against the store and settles with its result
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The upload store transaction was aborted'));
+  });
+};
+
+// Oldest first, so layer lists keep the order sounds were added in
+export const loadUploads = async (): Promise<StoredUpload[]> => {
+  const uploads = await withStore<StoredUpload[]>('readonly', store => store.getAll());
+  return uploads.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const readUploadFile = async (id: string): Promise<Blob | null> => {
+  const upload = await withStore<StoredUpload | undefined>('readonly', store => store.get(id));
+  return upload?.file ?? null;
+};
+
+export const saveUpload = (upload: StoredUpload) => withStore('readwrite', store => store.put(upload));
+
+export const deleteUpload = (id: string) => withStore('readwrite', store => store.delete(id));
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Asset sources to try before the app's own folder, comma separated
+  readonly VITE_ASSET_SOURCES?: string;
+  // Theme files to add to the theme registry at startup, comma separated
+  readonly VITE_THEME_FILES?: string;
+}